@@ -5,68 +5,92 @@ import {
   Table as TableIcon,
   Network,
   Calculator,
-  CheckCircle2,
   Download,
   ChevronRight,
   ChevronLeft,
   AlertCircle,
   Settings2,
   BookOpen,
-  Info
+  Info,
+  Undo2
 } from "lucide-react";
+import type { Cell, CellMatrix, Edge, EdgeKind, EstResult, Estimator, Latent, ReliabilityCorrection, Stage2Weighting, VarName } from "./masem/types";
+import {
+  carryOverCellMatrix,
+  formatCellToken,
+  formatMatrixText,
+  makeEmptyCellMatrix,
+  parseCombinedMatrixText,
+  removeMatrixTextVar,
+  renameCellMatrixVar,
+  renameMatrixTextVar,
+  validateCellMatrix,
+  computeTotalN,
+} from "./masem/cells";
+import { getSignificanceStar } from "./masem/estimation";
+import { estimateModel, type EstimationRequest } from "./masem/run";
+import { bootstrapIntervals, monteCarloIntervals, type ResamplingMethod, type ResamplingResult } from "./masem/resampling";
+import { coefKey, profileLikelihoodIntervals, type ProfileCI } from "./masem/profile";
+import { type ComparedModel, type SavedModel } from "./masem/compare";
+import EffectsPanel from "./components/EffectsPanel";
+import ModelComparisonPanel from "./components/ModelComparisonPanel";
+import ModificationIndicesPanel from "./components/ModificationIndicesPanel";
+import WaldTestPanel from "./components/WaldTestPanel";
+import MultiGroupPanel from "./components/MultiGroupPanel";
+import OsmasemPanel from "./components/OsmasemPanel";
+import HeterogeneityPanel from "./components/HeterogeneityPanel";
+import PositiveDefinitePanel from "./components/PositiveDefinitePanel";
+import LatentVariablesPanel from "./components/LatentVariablesPanel";
+import CollinearityPanel from "./components/CollinearityPanel";
+import VariableListPanel from "./components/VariableListPanel";
+import NameInput from "./components/NameInput";
+import MeasurementPanel from "./components/MeasurementPanel";
+import ReliabilityComparisonPanel from "./components/ReliabilityComparisonPanel";
+import type { GroupData } from "./masem/multigroup";
+import { modificationIndices, type ModIndex } from "./masem/ml";
+import {
+  parseStudiesText,
+  poolCorrelationMatrices,
+  stage1ToCellMatrix,
+  type PoolingMethod,
+  type Stage1Result,
+  type Study,
+} from "./masem/tssem";
+import { offDiagPairs } from "./masem/correlation";
+import { checkIdentification, describeCycle, feedbackBlocks } from "./masem/nonrecursive";
+import { collinearityWarnings, equationCollinearity } from "./masem/collinearity";
 
 // --- Types ---
 
-type VarName = string;
-
-type Cell = {
-  r: number; // correlation
-  n: number; // pairwise sample size, NaN for diagonal
-};
-
-type CellMatrix = Record<VarName, Record<VarName, Cell>>;
-
-type Edge = { from: VarName; to: VarName };
-
-type Coef = { 
-  from: VarName; 
-  to: VarName; 
-  beta: number; 
-  se: number;      
-  t: number;       
-  p: number;       
-  vif: number;     
-};
-
-type Fit = {
-  totalN: number;
-  N_method: "harmonic" | "min";
-  SRMR: number;
-  df: number;
-  observedMoments: number;
-  freeParams: number;
-  endogenousCount: number;
-  chi2?: number;
-  rmsea?: number;
-  cfi?: number;
-  tli?: number;
-};
-
-type EstResult = {
-  coeffs: Coef[];
-  r2: Record<VarName, number>;
-  resid: Record<VarName, number>;
-  fit: Fit;
-};
-
 type NodePos = Record<VarName, { x: number; y: number }>;
 
+// How to take back a rename or deletion of a variable. Undo reverses that one action, so cells
+// edited since are kept.
+type VariableUndo =
+  | { kind: "rename"; from: VarName; to: VarName }
+  | {
+      kind: "delete";
+      name: VarName;
+      index: number;
+      cells: Record<VarName, Cell>; // its row of the matrix
+      edges: Edge[];
+      savedEdges: Record<string, Edge[]>; // its edges in each saved model, by model name
+      latents: VarName[]; // latent variables it indicated
+      alpha?: number;
+      pos?: { x: number; y: number };
+    };
+
+function undoLabel(u: VariableUndo): string {
+  return u.kind === "rename" ? `rename ${u.from} → ${u.to}` : `delete ${u.name}`;
+}
+
 type SampleType = "All" | "Lodging" | "Restaurant" | "Tourism and travel";
 
 const BASE_VARS: VarName[] = ["loyalty", "satisfaction", "value", "quality"];
 
 // --- Data Presets ---
-const SAMPLE_PRESETS: Record<SampleType, { pair: Record<string, { r: number; n: number }> }> = {
+// Pairs may also carry k, tau2 and Q from the meta-analysis table; step 1 then shows their heterogeneity.
+const SAMPLE_PRESETS: Record<SampleType, { pair: Record<string, Cell> }> = {
   All: {
     pair: {
       "loyalty|satisfaction": { r: 0.734, n: 63671 },
@@ -123,498 +147,9 @@ function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj)) as T;
 }
 
-function getNormalPValue(z: number): number {
-  const absZ = Math.abs(z);
-  const p = 0.3275911;
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  
-  const sign = (z < 0) ? -1 : 1;
-  const t = 1.0 / (1.0 + p * absZ);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-absZ * absZ);
-  return (1.0 - y) * 2;
-}
-
-function getSignificanceStar(p: number) {
-  if (p < 0.001) return "***";
-  if (p < 0.01) return "**";
-  if (p < 0.05) return "*";
-  return "";
-}
-
-// --- Matrix Algebra ---
-
-function matIdentity(n: number): number[][] {
-  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
-}
-function matClone(A: number[][]): number[][] {
-  return A.map((r) => r.slice());
-}
-function transpose(A: number[][]): number[][] {
-  return A[0].map((_, j) => A.map((row) => row[j]));
-}
-function matMul(A: number[][], B: number[][]): number[][] {
-  const n = A.length,
-    m = B[0].length,
-    k = B.length;
-  const out = Array.from({ length: n }, () => Array(m).fill(0));
-  for (let i = 0; i < n; i++) {
-    for (let j = 0; j < m; j++) {
-      let s = 0;
-      for (let t = 0; t < k; t++) s += A[i][t] * B[t][j];
-      out[i][j] = s;
-    }
-  }
-  return out;
-}
-function matVecMul(A: number[][], v: number[]): number[] {
-  return A.map((row) => row.reduce((s, x, i) => s + x * v[i], 0));
-}
-function vecDot(a: number[], b: number[]): number {
-  return a.reduce((s, x, i) => s + x * b[i], 0);
-}
-
-function matInverse(A: number[][]): number[][] {
-  const n = A.length;
-  let M = matClone(A);
-  let I = matIdentity(n);
-
-  for (let col = 0; col < n; col++) {
-    let pivotRow = col;
-    for (let r = col; r < n; r++) {
-      if (Math.abs(M[r][col]) > Math.abs(M[pivotRow][col])) pivotRow = r;
-    }
-    if (Math.abs(M[pivotRow][col]) < 1e-12) {
-      throw new Error("Matrix is singular (cannot invert). Consider removing/adjusting variables or paths.");
-    }
-
-    [M[col], M[pivotRow]] = [M[pivotRow], M[col]];
-    [I[col], I[pivotRow]] = [I[pivotRow], I[col]];
-
-    const piv = M[col][col];
-    for (let j = 0; j < n; j++) {
-      M[col][j] /= piv;
-      I[col][j] /= piv;
-    }
-
-    for (let r = 0; r < n; r++) {
-      if (r === col) continue;
-      const factor = M[r][col];
-      for (let j = 0; j < n; j++) {
-        M[r][j] -= factor * M[col][j];
-        I[r][j] -= factor * I[col][j];
-      }
-    }
-  }
-  return I;
-}
-
-function matDet(A: number[][]): number {
-  const n = A.length;
-  let M = matClone(A);
-  let det = 1;
-  for (let i = 0; i < n; i++) {
-    let pivot = i;
-    for (let r = i; r < n; r++) if (Math.abs(M[r][i]) > Math.abs(M[pivot][i])) pivot = r;
-    if (Math.abs(M[pivot][i]) < 1e-12) return 0;
-    if (pivot !== i) {
-      [M[i], M[pivot]] = [M[pivot], M[i]];
-      det *= -1;
-    }
-    det *= M[i][i];
-    const piv = M[i][i];
-    for (let r = i + 1; r < n; r++) {
-      const f = M[r][i] / piv;
-      for (let c = i; c < n; c++) M[r][c] -= f * M[i][c];
-    }
-  }
-  return det;
-}
-
-function matTrace(A: number[][]): number {
-  return A.reduce((s, row, i) => s + row[i], 0);
-}
-
-// --- Parsing Helpers ---
-
-function splitLine(line: string): string[] {
-  return line.split(/,|\t|;/).map((s) => s.trim());
-}
-
-function parseCellToken(token: string, isDiag: boolean): Cell {
-  const t = String(token ?? "").trim();
-  if (!t) return { r: Number.NaN, n: Number.NaN };
-
-  let m = t.match(/^([+-]?\d*\.?\d+)\s*\|\s*([+-]?\d*\.?\d+)\s*$/);
-  if (m) {
-    const r = Number(m[1]);
-    const n = Number(m[2]);
-    return { r, n: isDiag ? Number.NaN : n };
-  }
-  m = t.match(/^([+-]?\d*\.?\d+)\s*[\(\[\{]\s*([+-]?\d*\.?\d+)\s*[\)\]\}]\s*$/);
-  if (m) {
-    const r = Number(m[1]);
-    const n = Number(m[2]);
-    return { r, n: isDiag ? Number.NaN : n };
-  }
-  m = t.match(/^([+-]?\d*\.?\d+)\s*$/);
-  if (m) {
-    const r = Number(m[1]);
-    return { r, n: isDiag ? Number.NaN : Number.NaN };
-  }
-
-  return { r: Number.NaN, n: Number.NaN };
-}
-
-function parseCombinedMatrixText(text: string): { vars: VarName[]; cellMatrix: CellMatrix } {
-  const raw = (text || "").trim();
-  if (!raw) throw new Error("Matrix text is empty.");
-
-  const lines = raw
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  if (lines.length < 2) throw new Error("Matrix needs at least 2 rows.");
-
-  const rows = lines.map(splitLine);
-  const header = rows[0];
-  if (header.length < 2) throw new Error('Header row must include variable names (e.g., ",A,B,C").');
-
-  const vars = header.slice(1);
-  if (vars.some((v) => !v)) throw new Error("Header contains empty variable name.");
-  if (new Set(vars).size !== vars.length) throw new Error("Duplicate variable names in header.");
-
-  const cellMatrix: CellMatrix = {};
-
-  for (let i = 1; i < rows.length; i++) {
-    const rowName = rows[i][0];
-    if (!rowName) throw new Error(`Row ${i + 1} has empty variable name.`);
-    cellMatrix[rowName] = {};
-
-    for (let j = 1; j < header.length; j++) {
-      const colName = vars[j - 1];
-      const token = rows[i][j] ?? "";
-      const isDiag = rowName === colName;
-      const cell = parseCellToken(token, isDiag);
-      cellMatrix[rowName][colName] = cell;
-    }
-  }
-
-  for (const r of vars) {
-    if (!cellMatrix[r]) throw new Error(`Missing row for "${r}". Row names must match header.`);
-    // NOTE: We don't throw here if cells are missing, we just initialize them if needed in the symmetry step
-    for (const c of vars) {
-      if (!cellMatrix[r][c]) {
-         // Create empty cell if not parsed
-         cellMatrix[r][c] = { r: Number.NaN, n: Number.NaN };
-      }
-    }
-  }
-
-  for (const v of vars) {
-    cellMatrix[v][v] = { r: 1, n: Number.NaN };
-  }
-
-  // --- AUTO-SYMMETRY FIX ---
-  // If user pasted a lower triangular matrix, upper cells might be NaN. 
-  // We copy from lower to upper (or vice versa) to enforce symmetry immediately.
-  for (let i = 0; i < vars.length; i++) {
-    for (let j = i + 1; j < vars.length; j++) {
-      const r = vars[i];
-      const c = vars[j];
-      
-      const cellUpper = cellMatrix[r][c]; // (i,j)
-      const cellLower = cellMatrix[c][r]; // (j,i)
-
-      // If Upper is invalid but Lower is valid, copy Lower -> Upper
-      if ((!Number.isFinite(cellUpper.r)) && Number.isFinite(cellLower.r)) {
-         cellMatrix[r][c] = { r: cellLower.r, n: cellLower.n };
-      }
-      // If Lower is invalid but Upper is valid, copy Upper -> Lower
-      else if ((!Number.isFinite(cellLower.r)) && Number.isFinite(cellUpper.r)) {
-         cellMatrix[c][r] = { r: cellUpper.r, n: cellUpper.n };
-      }
-    }
-  }
-
-  return { vars, cellMatrix };
-}
-
-function makeEmptyCellMatrix(vars: VarName[]): CellMatrix {
-  const M: CellMatrix = {};
-  for (const r of vars) {
-    M[r] = {};
-    for (const c of vars) {
-      if (r === c) M[r][c] = { r: 1, n: Number.NaN };
-      else M[r][c] = { r: Number.NaN, n: Number.NaN };
-    }
-  }
-  return M;
-}
-
-function carryOverCellMatrix(oldVars: VarName[], oldM: CellMatrix, newVars: VarName[], newM: CellMatrix): CellMatrix {
-  const ov = new Set(oldVars);
-  for (const r of newVars) {
-    if (!ov.has(r)) continue;
-    for (const c of newVars) {
-      if (!ov.has(c)) continue;
-      const cell = oldM?.[r]?.[c];
-      if (cell) newM[r][c] = { r: cell.r, n: cell.n };
-    }
-  }
-  for (const v of newVars) newM[v][v] = { r: 1, n: Number.NaN };
-  return newM;
-}
-
-function validateCellMatrix(vars: VarName[], M: CellMatrix): { ok: boolean; errors: string[]; warnings: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  for (const r of vars) {
-    if (!M[r]) errors.push(`Missing row "${r}".`);
-  }
-  if (errors.length) return { ok: false, errors, warnings };
-
-  for (const r of vars) {
-    for (const c of vars) {
-      const cell = M[r]?.[c];
-      if (!cell) {
-        errors.push(`Missing cell (${r}, ${c}).`);
-        continue;
-      }
-
-      const isDiag = r === c;
-      const rr = cell.r;
-
-      if (!Number.isFinite(rr)) {
-        errors.push(`Invalid correlation r at (${r}, ${c}).`);
-      } else {
-        if (rr < -1 || rr > 1) errors.push(`Correlation r out of bounds [-1,1] at (${r}, ${c}): ${rr}.`);
-        if (isDiag && Math.abs(rr - 1) > 1e-6) errors.push(`Diagonal must be 1. Found (${r},${c})=${rr}.`);
-      }
-
-      if (!isDiag) {
-        const nn = cell.n;
-        if (!Number.isFinite(nn)) {
-          errors.push(`Missing/invalid sample size n at (${r}, ${c}). Use r|n or r(n).`);
-        } else if (nn <= 2) {
-          errors.push(`Sample size n must be > 2 at (${r}, ${c}). Found n=${nn}.`);
-        }
-      }
-    }
-  }
-
-  for (let i = 0; i < vars.length; i++) {
-    for (let j = i + 1; j < vars.length; j++) {
-      const a = vars[i],
-        b = vars[j];
-      const c1 = M[a][b],
-        c2 = M[b][a];
-
-      if (Number.isFinite(c1?.r) && Number.isFinite(c2?.r) && Math.abs(c1.r - c2.r) > 1e-6) {
-        errors.push(`Matrix not symmetric in r: r(${a},${b}) != r(${b},${a}).`);
-      }
-      if (Number.isFinite(c1?.n) && Number.isFinite(c2?.n) && Math.abs(c1.n - c2.n) > 1e-6) {
-        warnings.push(`n not symmetric: n(${a},${b}) != n(${b},${a}). Consider making them equal.`);
-      }
-      const rr = M[a][b].r;
-      if (Number.isFinite(rr) && Math.abs(rr) >= 0.999999) {
-        warnings.push(`Very high |r|≈1 between ${a} and ${b}. This can make estimation unstable (singular).`);
-      }
-    }
-  }
-
-  return { ok: errors.length === 0, errors, warnings };
-}
-
-function buildRMatrix(vars: VarName[], M: CellMatrix): number[][] {
-  return vars.map((r) => vars.map((c) => M[r][c].r));
-}
-
-function symN(M: CellMatrix, a: VarName, b: VarName): number {
-  const n1 = M[a]?.[b]?.n;
-  const n2 = M[b]?.[a]?.n;
-  if (Number.isFinite(n1) && Number.isFinite(n2)) return Math.min(n1, n2);
-  if (Number.isFinite(n1)) return n1;
-  if (Number.isFinite(n2)) return n2;
-  return Number.NaN;
-}
-
-function computeTotalN(vars: VarName[], M: CellMatrix, method: "harmonic" | "min"): number {
-  const ns: number[] = [];
-  for (let i = 0; i < vars.length; i++) {
-    for (let j = i + 1; j < vars.length; j++) {
-      const n = symN(M, vars[i], vars[j]);
-      if (Number.isFinite(n)) ns.push(n);
-    }
-  }
-  if (ns.length === 0) return Number.NaN;
-  if (method === "min") return Math.min(...ns);
-
-  let denom = 0;
-  for (const n of ns) denom += 1 / n;
-  return ns.length / denom;
-}
-
-// --- Stats Estimation Core ---
-
-function parentsOf(node: VarName, edges: Edge[]): VarName[] {
-  return edges.filter((e) => e.to === node).map((e) => e.from);
-}
-
-function estimatePathsFromCorrelation(vars: VarName[], cellM: CellMatrix, edges: Edge[], totalN: number): {
-  coeffs: Coef[];
-  r2: Record<VarName, number>;
-  resid: Record<VarName, number>;
-} {
-  const coeffs: Coef[] = [];
-  const r2: Record<VarName, number> = {};
-  const resid: Record<VarName, number> = {};
-  const endogenous = new Set(edges.map((e) => e.to));
-
-  for (const y of vars) {
-    const X = parentsOf(y, edges);
-    if (X.length === 0) continue;
-
-    const Rxx = X.map((a) => X.map((b) => cellM[a][b].r));
-    const rXy = X.map((a) => cellM[a][y].r);
-
-    const inv = matInverse(Rxx);
-    const beta = matVecMul(inv, rXy);
-
-    // Calculate R2
-    const R2 = vecDot(rXy, beta);
-    r2[y] = R2;
-    resid[y] = Math.max(1e-8, 1 - R2);
-
-    const k = X.length;
-    const df = totalN - k - 1;
-    const errorVar = (1 - R2) / df;
-
-    X.forEach((x, i) => {
-      const vif = inv[i][i];
-      const se = Math.sqrt(errorVar * vif);
-      const t = Math.abs(beta[i] / se);
-      const p = getNormalPValue(t);
-
-      coeffs.push({ 
-        from: x, 
-        to: y, 
-        beta: beta[i],
-        se,
-        t,
-        p,
-        vif
-      });
-    });
-  }
-
-  for (const v of vars) {
-    if (endogenous.has(v) && !(v in resid)) resid[v] = 1;
-  }
-
-  return { coeffs, r2, resid };
-}
-
-function impliedSigmaRecursive(
-  vars: VarName[],
-  S: number[][],
-  edges: Edge[],
-  coeffs: Coef[],
-  residVar: Record<VarName, number>
-): number[][] {
-  const p = vars.length;
-  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
-  const endogenous = new Set(edges.map((e) => e.to));
-
-  const B = Array.from({ length: p }, () => Array(p).fill(0));
-  for (const e of coeffs) {
-    B[idx[e.to]][idx[e.from]] = e.beta;
-  }
-
-  const exoIdx = vars.map((v, i) => (!endogenous.has(v) ? i : -1)).filter((i) => i >= 0);
-  const Psi = Array.from({ length: p }, () => Array(p).fill(0));
-
-  for (let a = 0; a < exoIdx.length; a++) {
-    for (let b = 0; b < exoIdx.length; b++) {
-      const i = exoIdx[a],
-        j = exoIdx[b];
-      Psi[i][j] = S[i][j];
-    }
-  }
-
-  for (const v of vars) {
-    const i = idx[v];
-    if (endogenous.has(v)) Psi[i][i] = Math.max(1e-8, residVar[v] ?? 1);
-  }
-
-  const I = matIdentity(p);
-  const IminusB = I.map((row, i) => row.map((x, j) => x - B[i][j]));
-  const inv = matInverse(IminusB);
-  const invT = transpose(inv);
-
-  return matMul(matMul(inv, Psi), invT);
-}
-
-function srmrOffDiag(S: number[][], Sigma: number[][]): number {
-  const p = S.length;
-  let sum = 0,
-    k = 0;
-  for (let i = 0; i < p; i++) {
-    for (let j = i + 1; j < p; j++) {
-      const d = S[i][j] - Sigma[i][j];
-      sum += d * d;
-      k++;
-    }
-  }
-  return Math.sqrt(sum / Math.max(1, k));
-}
-
-function fitML(S: number[][], Sigma: number[][], N: number): { chi2: number; chi2_0: number } {
-  const p = S.length;
-  const detS = matDet(S);
-  const detSig = matDet(Sigma);
-  if (detS <= 0 || detSig <= 0) {
-    throw new Error("Observed/implied matrix not positive definite (det<=0). Check correlations or model constraints.");
-  }
-
-  const SigInv = matInverse(Sigma);
-  const tr = matTrace(matMul(S, SigInv));
-  const Fml = Math.log(detSig) + tr - Math.log(detS) - p;
-  const chi2 = (N - 1) * Fml;
-
-  const Sigma0 = Array.from({ length: p }, (_, i) =>
-    Array.from({ length: p }, (_, j) => (i === j ? S[i][i] : 0))
-  );
-  const det0 = matDet(Sigma0);
-  const inv0 = matInverse(Sigma0);
-  const tr0 = matTrace(matMul(S, inv0));
-  const F0 = Math.log(det0) + tr0 - Math.log(detS) - p;
-  const chi2_0 = (N - 1) * F0;
-
-  return { chi2, chi2_0 };
-}
-
-function computeFitIndices(args: { chi2: number; df: number; chi2_0: number; df0: number; N: number }) {
-  const { chi2, df, chi2_0, df0, N } = args;
-  const cfi = 1 - Math.max(0, chi2 - df) / Math.max(1e-12, chi2_0 - df0);
-  const tli = 1 - (chi2 / Math.max(1e-12, df) - 1) / (chi2_0 / Math.max(1e-12, df0) - 1);
-  const rmsea = Math.sqrt(Math.max(0, (chi2 - df) / (Math.max(1e-12, df) * (N - 1))));
-  return { cfi, tli, rmsea };
-}
-
-function countDF(vars: VarName[], edges: Edge[]) {
-  const observedMoments = (vars.length * (vars.length + 1)) / 2;
-  const endogenous = new Set(edges.map((e) => e.to));
-  const endoCount = vars.filter((v) => endogenous.has(v)).length;
-  const freeParams = edges.length + endoCount;
-  const df = Math.max(0, observedMoments - freeParams);
-  const df0 = (vars.length * (vars.length - 1)) / 2;
-  return { df, df0, observedMoments, freeParams, endoCount };
+// The reliabilities of the given variables; alpha may still hold names that were removed.
+function reliabilitiesOf(alpha: Record<VarName, number>, vars: VarName[]): Record<VarName, number> {
+  return Object.fromEntries(vars.filter((v) => alpha[v] !== undefined).map((v) => [v, alpha[v]]));
 }
 
 // --- UI Components & Helpers ---
@@ -635,7 +170,7 @@ function generateDefaultMatrixText(currentVars: VarName[]) {
         const k = pairKey(rowName, colName);
         const val = allPreset[k];
         if (val) {
-          row.push(`${val.r}|${val.n}`);
+          row.push(formatCellToken(val));
         } else {
           row.push("");
         }
@@ -678,6 +213,14 @@ function ErrorBox({
 }
 
 function initialPositions(vars: VarName[], width: number, height: number): NodePos {
+  // Beyond a dozen nodes a circle overlaps; lay them out on a grid instead.
+  if (vars.length > 12) {
+    const cols = Math.ceil(Math.sqrt((vars.length * width) / height));
+    const rows = Math.ceil(vars.length / cols);
+    return Object.fromEntries(
+      vars.map((v, i) => [v, { x: (width * ((i % cols) + 0.5)) / cols, y: (height * (Math.floor(i / cols) + 0.5)) / rows }])
+    );
+  }
   const cx = width / 2;
   const cy = height / 2;
   const rad = Math.min(width, height) * 0.35;
@@ -700,8 +243,8 @@ function buildPresetBaseMatrix(sample: SampleType): CellMatrix {
       const k = pairKey(a, b);
       const v = preset.pair[k];
       if (v) {
-        M[a][b] = { r: v.r, n: v.n };
-        M[b][a] = { r: v.r, n: v.n };
+        M[a][b] = { ...v };
+        M[b][a] = { ...v };
       }
     }
   }
@@ -709,53 +252,67 @@ function buildPresetBaseMatrix(sample: SampleType): CellMatrix {
   return M;
 }
 
+// A preset as a multi-group matrix: its base-variable block over the current matrix, so the
+// cells of added variables are shared by every preset group.
+function presetGroupMatrix(M: CellMatrix, sample: SampleType): CellMatrix {
+  const next = deepClone(M);
+  const base = buildPresetBaseMatrix(sample);
+  for (const a of BASE_VARS) for (const b of BASE_VARS) next[a][b] = deepClone(base[a][b]);
+  return next;
+}
+
 // --- Main Component ---
 
 export default function PathModelBuilder() {
   const [step, setStep] = useState<number>(0); 
   
-  const [sampleType, setSampleType] = useState<SampleType>("All");
-  const [customVars, setCustomVars] = useState<VarName[]>([]);
-  const [pendingCount, setPendingCount] = useState<number>(0);
-  const [pendingNames, setPendingNames] = useState<string[]>([]);
-  const vars = useMemo<VarName[]>(() => [...BASE_VARS, ...customVars], [customVars]);
+  // "none" once the user works with their own variables only; a preset fills the base-variable block.
+  const [sampleType, setSampleType] = useState<SampleType | "none">("All");
+  const [vars, setVars] = useState<VarName[]>(BASE_VARS);
+  // Optional reliability (α) per variable name, entered in step 0.
+  const [alpha, setAlpha] = useState<Record<VarName, number>>({});
 
   const [cellM, setCellM] = useState<CellMatrix>(() => {
     const baseM = buildPresetBaseMatrix("All");
     return carryOverCellMatrix(BASE_VARS, baseM, BASE_VARS, baseM);
   });
   const [matrixText, setMatrixText] = useState<string>(() => generateDefaultMatrixText([...BASE_VARS]));
-  const [inputMode, setInputMode] = useState<"text" | "grid">("grid");
+  const [inputMode, setInputMode] = useState<"text" | "grid" | "studies">("grid");
+  const [showHetInputs, setShowHetInputs] = useState<boolean>(false);
+  const [studiesText, setStudiesText] = useState<string>("");
+  const [poolMethod, setPoolMethod] = useState<PoolingMethod>("random");
+  const [stage1, setStage1] = useState<Stage1Result | null>(null);
   const [matrixErrors, setMatrixErrors] = useState<string[]>([]);
   const [matrixWarnings, setMatrixWarnings] = useState<string[]>([]);
 
   const [edges, setEdges] = useState<Edge[]>([]);
+  const [latents, setLatents] = useState<Latent[]>([]);
+  // Diagram nodes: the observed variables, then the latent ones.
+  const nodes = useMemo<VarName[]>(() => [...vars, ...latents.map((l) => l.name)], [vars, latents]);
   const [nodePos, setNodePos] = useState<NodePos>({});
   const [connectFrom, setConnectFrom] = useState<VarName | null>(null);
+  const [edgeKind, setEdgeKind] = useState<EdgeKind>("path");
 
   const [nMethod, setNMethod] = useState<"harmonic" | "min">("harmonic");
+  const [estimator, setEstimator] = useState<Estimator>("ML");
+  const [weighting, setWeighting] = useState<Stage2Weighting>("fixed");
+  const [correction, setCorrection] = useState<ReliabilityCorrection | "none">("none");
   const [lastEst, setLastEst] = useState<EstResult | null>(null);
+  // With a reliability correction, the same model estimated from the observed correlations.
+  const [uncorrected, setUncorrected] = useState<{ result: EstResult | null; error: string | null } | null>(null);
   const [estError, setEstError] = useState<string | null>(null);
-
-  useEffect(() => {
-    setCellM((prev) => {
-      const next = deepClone(prev);
-      const base = buildPresetBaseMatrix(sampleType);
-      for (const a of BASE_VARS) {
-        for (const b of BASE_VARS) {
-          next[a] ??= {};
-          next[b] ??= {};
-          next[a][b] = deepClone(base[a][b]);
-        }
-      }
-      for (const v of vars) {
-        next[v] ??= {};
-        next[v][v] = { r: 1, n: Number.NaN };
-      }
-      return next;
-    });
-    setLastEst(null);
-  }, [sampleType]);
+  const [ciMethod, setCiMethod] = useState<ResamplingMethod>("montecarlo");
+  const [ciDraws, setCiDraws] = useState<number>(1000);
+  const [ciType, setCiType] = useState<"percentile" | "bc">("percentile");
+  const [resampled, setResampled] = useState<ResamplingResult | null>(null);
+  const [resampleError, setResampleError] = useState<string | null>(null);
+  const [profiled, setProfiled] = useState<Record<string, ProfileCI> | null>(null);
+  const [fitView, setFitView] = useState<"short" | "full">("short");
+  const [savedModels, setSavedModels] = useState<SavedModel[]>([]);
+  const [modelName, setModelName] = useState<string>("");
+  const [comparison, setComparison] = useState<ComparedModel[] | null>(null);
+  const [modIndices, setModIndices] = useState<ModIndex[] | null>(null);
+  const [varUndo, setVarUndo] = useState<VariableUndo[]>([]);
 
   useEffect(() => {
     const width = 800;
@@ -763,16 +320,38 @@ export default function PathModelBuilder() {
     setNodePos((prev) => {
       const next: NodePos = { ...(prev || {}) };
       let missing = false;
-      for (const v of vars) if (!next[v]) missing = true;
+      for (const v of nodes) if (!next[v]) missing = true;
       if (!missing) return next;
 
-      const init = initialPositions(vars, width, height);
-      for (const v of vars) if (!next[v]) next[v] = init[v];
+      const init = initialPositions(nodes, width, height);
+      for (const v of nodes) if (!next[v]) next[v] = init[v];
       return next;
     });
-  }, [vars.join("|"), step]);
+  }, [nodes.join("|"), step]);
 
-  useEffect(() => { setLastEst(null); }, [edges]);
+  useEffect(() => { setLastEst(null); }, [edges, latents]);
+
+  const loops = useMemo(() => feedbackBlocks(nodes, edges), [nodes, edges]);
+  // The pooled studies, for the moderator analysis; null unless step 1 pooled them.
+  const studies = useMemo<Study[] | null>(() => {
+    if (!stage1) return null;
+    try {
+      return parseStudiesText(studiesText);
+    } catch {
+      return null;
+    }
+  }, [stage1, studiesText]);
+  // The presets are groups only while all of their variables are in the model.
+  const presetGroups = useMemo<GroupData[]>(
+    () =>
+      BASE_VARS.every((v) => vars.includes(v))
+        ? (Object.keys(SAMPLE_PRESETS) as SampleType[]).map((name) => ({ name, cellM: presetGroupMatrix(cellM, name) }))
+        : [],
+    [vars, cellM]
+  );
+  const identProblems = useMemo(() => (loops.length ? checkIdentification(nodes, edges) : []), [nodes, edges, loops]);
+  const collinearity = useMemo(() => equationCollinearity(vars, cellM, edges), [vars, cellM, edges]);
+  const collinearityLevel = new Map(collinearity.map((e) => [e.target, e.level]));
 
   const setCell = (r: VarName, c: VarName, patch: Partial<Cell>) => {
     setCellM((prev) => {
@@ -790,6 +369,7 @@ export default function PathModelBuilder() {
       }
       return next;
     });
+    setStage1(null);
     setLastEst(null);
   };
 
@@ -800,80 +380,188 @@ export default function PathModelBuilder() {
     return v.ok;
   };
 
-  const applyVars = () => {
-    const names = pendingNames.map((s) => s.trim()).filter(Boolean);
-    if (names.length !== pendingCount) {
-      alert(`You specified ${pendingCount} new variables, but provided ${names.length} valid names.`);
-      return;
-    }
-    const all = [...BASE_VARS, ...names];
-    const dup = all.find((x, i) => all.indexOf(x) !== i);
+  // Every change of the variable list keeps the correlations entered so far, keyed by name.
+  // The text matrix is regenerated from the cells unless the caller edited it.
+  const changeVars = (nextVars: VarName[], nextM: CellMatrix, text?: string) => {
+    const M = carryOverCellMatrix(Object.keys(nextM), nextM, nextVars, makeEmptyCellMatrix(nextVars));
+    setVars(nextVars);
+    setCellM(M);
+    setMatrixText(text ?? formatMatrixText(nextVars, M));
+    setStage1(null);
+    setLastEst(null);
+    setComparison(null);
+    setMatrixErrors([]);
+  };
+
+  const choosePreset = (next: SampleType | "none") => {
+    setSampleType(next);
+    if (next === "none") return;
+    const nextVars = [...BASE_VARS.filter((v) => !vars.includes(v)), ...vars];
+    const M = carryOverCellMatrix(vars, cellM, nextVars, makeEmptyCellMatrix(nextVars));
+    const base = buildPresetBaseMatrix(next);
+    for (const a of BASE_VARS) for (const b of BASE_VARS) M[a][b] = deepClone(base[a][b]);
+    changeVars(nextVars, M);
+  };
+
+  const addVars = (names: VarName[]): boolean => {
+    const taken = new Set([...vars, ...latents.map((l) => l.name)]);
+    const dup = names.find((x, i) => taken.has(x) || names.indexOf(x) !== i);
     if (dup) {
       alert(`Duplicate variable name detected: "${dup}".`);
+      return false;
+    }
+    changeVars([...vars, ...names], cellM);
+    return true;
+  };
+
+  const pushUndo = (u: VariableUndo) => setVarUndo((prev) => [...prev.slice(-19), u]);
+
+  // Edges (also those of saved models), indicators, reliabilities, the diagram position and the
+  // text matrix follow the new name.
+  const applyRename = (from: VarName, to: VarName) => {
+    const swap = (v: VarName) => (v === from ? to : v);
+    const swapEdges = (list: Edge[]) => list.map((e) => ({ ...e, from: swap(e.from), to: swap(e.to) }));
+    changeVars(vars.map(swap), renameCellMatrixVar(cellM, from, to), renameMatrixTextVar(matrixText, from, to));
+    setEdges(swapEdges);
+    setSavedModels((prev) => prev.map((m) => ({ ...m, edges: swapEdges(m.edges) })));
+    setLatents((prev) => prev.map((l) => ({ ...l, indicators: l.indicators.map(swap) })));
+    setAlpha((prev) => {
+      const { [from]: a, ...rest } = prev;
+      return a !== undefined ? { ...rest, [to]: a } : rest;
+    });
+    setNodePos((prev) => {
+      const { [from]: p, ...rest } = prev;
+      return p ? { ...rest, [to]: p } : rest;
+    });
+    if (BASE_VARS.includes(from)) setSampleType("none");
+  };
+
+  // A name already in use is refused.
+  const renameVar = (from: VarName, to: VarName) => {
+    if (!to) return;
+    if (nodes.includes(to)) {
+      alert(`Cannot rename "${from}": a variable named "${to}" already exists.`);
       return;
     }
-    const newVars = [...BASE_VARS, ...names];
-    const newM = makeEmptyCellMatrix(newVars);
-    carryOverCellMatrix(vars, cellM, newVars, newM);
-    const basePreset = buildPresetBaseMatrix(sampleType);
-    for (const a of BASE_VARS) for (const b of BASE_VARS) newM[a][b] = deepClone(basePreset[a][b]);
-    setCustomVars(names);
-    setCellM(newM);
-    setEdges([]);
-    setLastEst(null);
-    setMatrixText(generateDefaultMatrixText(newVars)); 
-    setMatrixErrors([]);
+    applyRename(from, to);
+    pushUndo({ kind: "rename", from, to });
   };
 
-  const runEstimation = () => {
-    const v = validateCellMatrix(vars, cellM);
-    const errors: string[] = [];
-    const warnings: string[] = [...v.warnings];
-    setEstError(null);
+  const removeVar = (name: VarName) => {
+    const touches = (e: Edge) => e.from === name || e.to === name;
+    pushUndo({
+      kind: "delete",
+      name,
+      index: vars.indexOf(name),
+      cells: Object.fromEntries(vars.filter((v) => v !== name && cellM[name]?.[v]).map((v) => [v, cellM[name][v]])),
+      edges: edges.filter(touches),
+      savedEdges: Object.fromEntries(savedModels.map((m) => [m.name, m.edges.filter(touches)])),
+      latents: latents.filter((l) => l.indicators.includes(name)).map((l) => l.name),
+      alpha: alpha[name],
+      pos: nodePos[name],
+    });
+    changeVars(vars.filter((v) => v !== name), cellM, removeMatrixTextVar(matrixText, name));
+    setEdges((prev) => prev.filter((e) => !touches(e)));
+    setSavedModels((prev) => prev.map((m) => ({ ...m, edges: m.edges.filter((e) => !touches(e)) })));
+    setLatents((prev) => prev.map((l) => ({ ...l, indicators: l.indicators.filter((x) => x !== name) })));
+    setAlpha((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+    setNodePos((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+    if (BASE_VARS.includes(name)) setSampleType("none");
+  };
 
-    if (!edges.length) errors.push("No paths defined. Create at least one directed edge.");
-    if (!v.ok) errors.push(...v.errors);
+  // A deleted variable returns at its old position with its correlations, edges (also in the saved
+  // models), indicator roles, reliability and diagram position, as far as the other ends still exist.
+  const undoVarChange = () => {
+    const last = varUndo[varUndo.length - 1];
+    if (!last) return;
+    setVarUndo((prev) => prev.slice(0, -1));
+    if (last.kind === "rename") {
+      if (vars.includes(last.to) && !nodes.includes(last.from)) applyRename(last.to, last.from);
+      return;
+    }
+    const { name, cells, alpha: a, pos } = last;
+    if (nodes.includes(name)) return;
+    const nextVars = [...vars];
+    nextVars.splice(Math.min(last.index, vars.length), 0, name);
+    const M = carryOverCellMatrix(vars, cellM, nextVars, makeEmptyCellMatrix(nextVars));
+    for (const v of vars) {
+      if (!cells[v]) continue;
+      M[name][v] = { ...cells[v] };
+      M[v][name] = { ...cells[v] };
+    }
+    changeVars(nextVars, M);
+    const restorable = (list: Edge[]) => list.filter((e) => nodes.includes(e.from === name ? e.to : e.from));
+    setEdges((prev) => [...prev, ...restorable(last.edges)]);
+    setSavedModels((prev) => prev.map((m) => ({ ...m, edges: [...m.edges, ...restorable(last.savedEdges[m.name] ?? [])] })));
+    setLatents((prev) => prev.map((l) => (last.latents.includes(l.name) ? { ...l, indicators: [...l.indicators, name] } : l)));
+    if (a !== undefined) setAlpha((prev) => ({ ...prev, [name]: a }));
+    if (pos) setNodePos((prev) => ({ ...prev, [name]: pos }));
+  };
+
+  const moveVar = (name: VarName, delta: number) => {
+    const i = vars.indexOf(name);
+    const j = i + delta;
+    if (i < 0 || j < 0 || j >= vars.length) return;
+    const next = [...vars];
+    [next[i], next[j]] = [next[j], next[i]];
+    changeVars(next, cellM);
+  };
 
-    const N = v.ok ? computeTotalN(vars, cellM, nMethod) : Number.NaN;
-    if (v.ok && (!Number.isFinite(N) || N <= 2)) errors.push("Total N is invalid (check pairwise n values).");
+  const clearVars = () => {
+    if (!confirm("Remove all variables with their correlations and the model? This cannot be undone.")) return;
+    setVarUndo([]);
+    changeVars([], {});
+    setSampleType("none");
+    setEdges([]);
+    setLatents([]);
+    setNodePos({});
+  };
 
-    if (errors.length) {
-      setMatrixErrors(errors);
-      setMatrixWarnings(warnings);
+  const poolStudies = () => {
+    try {
+      const studies = parseStudiesText(studiesText);
+      const res = poolCorrelationMatrices(vars, studies, poolMethod);
+      const pooledM = stage1ToCellMatrix(res);
+      // The text editor shows the pooled matrix too, so loading the text later does not undo the pooling.
+      setCellM(pooledM);
+      setMatrixText(formatMatrixText(vars, pooledM));
+      setStage1(res);
+      setMatrixErrors([]);
+      setMatrixWarnings([]);
       setLastEst(null);
-      return false;
+    } catch (e) {
+      setStage1(null);
+      setMatrixErrors([e instanceof Error ? e.message : String(e)]);
     }
+  };
+
+  const runEstimation = () => {
+    setEstError(null);
+    setMatrixErrors([]);
+    setResampled(null);
+    setResampleError(null);
+    setProfiled(null);
+    setModIndices(null);
 
     try {
-      const S = buildRMatrix(vars, cellM);
-      const { coeffs, r2, resid } = estimatePathsFromCorrelation(vars, cellM, edges, N);
-      const Sigma = impliedSigmaRecursive(vars, S, edges, coeffs, resid);
-      const srmr = srmrOffDiag(S, Sigma);
-      const { df, df0, observedMoments, freeParams, endoCount } = countDF(vars, edges);
-
-      const fit: Fit = {
-        totalN: N,
-        N_method: nMethod,
-        SRMR: srmr,
-        df,
-        observedMoments,
-        freeParams,
-        endogenousCount: endoCount,
-      };
-
-      if (df > 0) {
-        const { chi2, chi2_0 } = fitML(S, Sigma, N);
-        const { cfi, tli, rmsea } = computeFitIndices({ chi2, df, chi2_0, df0, N });
-        fit.chi2 = chi2;
-        fit.rmsea = rmsea;
-        fit.cfi = cfi;
-        fit.tli = tli;
-      } else {
-        warnings.push("df = 0. Model is saturated. Fit indices (RMSEA/CFI) are not computed.");
+      const req = { vars, cellM, edges, estimator, nMethod, stage1, weighting, latents };
+      const out = estimateModel(withCorrection(req));
+      setMatrixWarnings(out.warnings);
+      if (!out.ok) {
+        setMatrixErrors(out.errors);
+        setLastEst(null);
+        return false;
       }
-
-      setMatrixWarnings(warnings);
-      setLastEst({ coeffs, r2, resid, fit });
+      setLastEst(out.result);
+      setUncorrected(correction === "none" ? null : estimateUncorrected(req));
       return true;
     } catch (e) {
       setEstError(e instanceof Error ? e.message : String(e));
@@ -882,6 +570,127 @@ export default function PathModelBuilder() {
     }
   };
 
+  const reliabilityCorrection = () => (correction === "none" ? undefined : { alpha: reliabilitiesOf(alpha, vars), mode: correction });
+
+  const withCorrection = (req: EstimationRequest): EstimationRequest =>
+    correction === "none" ? req : { ...req, reliability: reliabilityCorrection() };
+
+  const estimateUncorrected = (req: EstimationRequest) => {
+    try {
+      const out = estimateModel(req);
+      return out.ok ? { result: out.result, error: null } : { result: null, error: out.errors.join(" ") };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  };
+
+  // --- Saved models ---
+
+  const saveCurrentModel = () => {
+    const name = modelName.trim() || `Model ${savedModels.length + 1}`;
+    setSavedModels((prev) => [...prev.filter((m) => m.name !== name), { name, edges: deepClone(edges) }]);
+    setModelName("");
+  };
+
+  // Every saved model is estimated against the current matrix with the current estimator. A model
+  // that refers to variables no longer present is reported rather than fitted without them.
+  const runComparison = () => {
+    setComparison(
+      savedModels.map((m) => {
+        const missing = [...new Set(m.edges.flatMap((e) => [e.from, e.to]))].filter((v) => !nodes.includes(v));
+        if (missing.length) return { ...m, error: `Refers to variables that are no longer in the analysis: ${missing.join(", ")}.` };
+        try {
+          const req = { vars, cellM, edges: m.edges, estimator, nMethod, stage1, weighting, latents };
+          const out = estimateModel(withCorrection(req));
+          return out.ok ? { ...m, fit: out.result.fit } : { ...m, error: out.errors.join(" ") };
+        } catch (e) {
+          return { ...m, error: e instanceof Error ? e.message : String(e) };
+        }
+      })
+    );
+  };
+
+  // Parametric bootstrap re-estimates the paths; Monte Carlo draws from the estimates' vcov.
+  const runResampling = () => {
+    if (!lastEst) return;
+    setResampleError(null);
+    try {
+      const opts = { draws: Math.max(100, Math.round(ciDraws)) };
+      setResampled(
+        ciMethod === "bootstrap"
+          ? bootstrapIntervals(vars, cellM, edges, computeTotalN(vars, cellM, "harmonic"), opts)
+          : monteCarloIntervals(nodes, lastEst.coeffs, lastEst.vcov, opts)
+      );
+    } catch (e) {
+      setResampleError(e instanceof Error ? e.message : String(e));
+      setResampled(null);
+    }
+  };
+
+  const runModIndices = () => {
+    if (!lastEst) return;
+    setResampleError(null);
+    try {
+      setModIndices(modificationIndices(vars, cellM, edges, lastEst.fit.totalN, latents, reliabilityCorrection()));
+    } catch (e) {
+      setResampleError(e instanceof Error ? e.message : String(e));
+      setModIndices(null);
+    }
+  };
+
+  const updateEdge = (idx: number, patch: Partial<Pick<Edge, "label" | "fixed">>) => {
+    setEdges((prev) => prev.map((e, i) => (i === idx ? { ...e, ...patch } : e)));
+  };
+
+  // --- Latent variables ---
+
+  const addLatent = () => {
+    let i = latents.length + 1;
+    while (nodes.includes(`F${i}`)) i++;
+    setLatents((prev) => [...prev, { name: `F${i}`, indicators: [] }]);
+  };
+
+  // Edges and the diagram position follow the new name; a name already in use is refused.
+  const renameLatent = (from: VarName, to: VarName) => {
+    if (!to || nodes.includes(to)) return;
+    const swap = (v: VarName) => (v === from ? to : v);
+    setLatents((prev) => prev.map((l) => (l.name === from ? { ...l, name: to } : l)));
+    setEdges((prev) => prev.map((e) => ({ ...e, from: swap(e.from), to: swap(e.to) })));
+    setNodePos((prev) => {
+      const { [from]: p, ...rest } = prev;
+      return p ? { ...rest, [to]: p } : rest;
+    });
+  };
+
+  const removeLatent = (name: VarName) => {
+    setLatents((prev) => prev.filter((l) => l.name !== name));
+    setEdges((prev) => prev.filter((e) => e.from !== name && e.to !== name));
+  };
+
+  const toggleIndicator = (name: VarName, indicator: VarName) => {
+    setLatents((prev) =>
+      prev.map((l) =>
+        l.name !== name ? l : { ...l, indicators: l.indicators.includes(indicator) ? l.indicators.filter((x) => x !== indicator) : [...l.indicators, indicator] }
+      )
+    );
+  };
+
+  const addEdgeFromResults = (e: Edge) => {
+    setEdges((prev) => [...prev, e]);
+    setStep(2);
+  };
+
+  const runProfiles = () => {
+    if (!lastEst) return;
+    setResampleError(null);
+    try {
+      setProfiled(profileLikelihoodIntervals(vars, cellM, edges, lastEst.fit.totalN, latents));
+    } catch (e) {
+      setResampleError(e instanceof Error ? e.message : String(e));
+      setProfiled(null);
+    }
+  };
+
   const dragRef = useRef<{ active: boolean; varName: VarName | null; dx: number; dy: number }>({
     active: false, varName: null, dx: 0, dy: 0,
   });
@@ -893,13 +702,15 @@ export default function PathModelBuilder() {
     // Only add edge in step 2
     if (step === 2) {
       if (connectFrom === v) return;
-      if (edges.some((e) => e.from === connectFrom && e.to === v)) return;
-      setEdges([...edges, { from: connectFrom, to: v }]);
+      if (edgeKind === "cov") {
+        if (edges.some((e) => e.kind === "cov" && ((e.from === connectFrom && e.to === v) || (e.from === v && e.to === connectFrom)))) return;
+      } else if (edges.some((e) => e.kind === "path" && e.from === connectFrom && e.to === v)) return;
+      setEdges([...edges, { from: connectFrom, to: v, kind: edgeKind }]);
     }
     setConnectFrom(null);
   };
   
-  const onPointerDownNode = (e: React.PointerEvent<SVGCircleElement>, v: VarName) => {
+  const onPointerDownNode = (e: React.PointerEvent<SVGGraphicsElement>, v: VarName) => {
     if (step !== 2) return;
     e.preventDefault();
     const svg = e.currentTarget.ownerSVGElement;
@@ -933,7 +744,10 @@ export default function PathModelBuilder() {
   
   const goNext = () => {
     if (step === 0) {
-      applyVars();
+      if (vars.length < 2) {
+        alert("Add at least two variables.");
+        return;
+      }
       setStep(1);
     } else if (step === 1) {
        if (validateMatrixState()) setStep(2);
@@ -1006,7 +820,7 @@ export default function PathModelBuilder() {
                <div className="bg-indigo-50/50 border border-indigo-100 rounded-xl p-4 mb-8 text-sm text-indigo-900 flex gap-3">
                   <Info className="shrink-0 text-indigo-600 mt-0.5" size={18} />
                   <div>
-                    <strong>Purpose of this tool:</strong> This tool is designed to add new variable correlations based on the existing 4-variable meta-analyzed correlation matrix from <em>So, Yang and Li (2025)</em>, generating a new Extended MASEM. The 4 base variables are pre-loaded.
+                    <strong>Purpose of this tool:</strong> This tool is designed to add new variable correlations based on the existing 4-variable meta-analyzed correlation matrix from <em>So, Yang and Li (2025)</em>, generating a new Extended MASEM. The 4 base variables are pre-loaded; you can also remove them and start from your own variables.
                   </div>
                </div>
 
@@ -1017,8 +831,9 @@ export default function PathModelBuilder() {
                       <select 
                         className="w-full appearance-none bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 pr-8 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                         value={sampleType}
-                        onChange={(e) => setSampleType(e.target.value as SampleType)}
+                        onChange={(e) => choosePreset(e.target.value as SampleType | "none")}
                       >
+                         <option value="none">None (own variables)</option>
                          <option value="All">All Samples</option>
                          <option value="Lodging">Lodging Industry</option>
                          <option value="Restaurant">Restaurant Industry</option>
@@ -1026,69 +841,50 @@ export default function PathModelBuilder() {
                       </select>
                       <div className="absolute right-3 top-3.5 text-slate-400 pointer-events-none"><ChevronRight size={16} className="rotate-90"/></div>
                     </div>
+                    <p className="text-xs text-slate-500">
+                       A preset adds {BASE_VARS.join(", ")} with their pooled correlations. With None, define your own variables and enter their correlations in the next step. Correlations already entered are kept when variables are added, renamed, moved or removed.
+                    </p>
                  </div>
 
-                 <div className="space-y-4">
-                    <div className="flex justify-between items-center">
-                       <label className="block text-sm font-semibold text-slate-700">Custom Variables</label>
-                       <span className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded-full">{pendingCount} added</span>
-                    </div>
-                    
-                    <div className="flex gap-4">
-                       <div className="w-24">
-                          <input type="number" min="0" max="10" className="w-full border border-slate-200 rounded-xl px-3 py-2 text-center" 
-                            value={pendingCount}
-                            onChange={(e) => {
-                                const v = Math.max(0, Math.min(10, Number(e.target.value)));
-                                setPendingCount(v);
-                                setPendingNames(prev => {
-                                   const arr = [...prev];
-                                   while(arr.length < v) arr.push("");
-                                   while(arr.length > v) arr.pop();
-                                   return arr;
-                                });
-                            }}
-                          />
-                          <span className="text-[10px] text-slate-400 block text-center mt-1">Count</span>
-                       </div>
-                       <div className="flex-1">
-                          <textarea 
-                             className="w-full border border-slate-200 rounded-xl px-3 py-2 text-sm font-mono h-32 resize-none focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                             placeholder={`Enter names...\none per line`}
-                             value={pendingNames.join("\n")}
-                             onChange={(e) => {
-                                const lines = e.target.value.split("\n");
-                                setPendingNames(lines.slice(0, pendingCount));
-                             }}
-                             disabled={pendingCount === 0}
-                          />
-                       </div>
-                    </div>
-                 </div>
+                 <VariableListPanel
+                    vars={vars}
+                    presetVars={sampleType === "none" ? [] : BASE_VARS}
+                    onAdd={addVars}
+                    onRename={renameVar}
+                    onRemove={removeVar}
+                    onMove={moveVar}
+                    onClear={clearVars}
+                    undoLabel={varUndo.length ? undoLabel(varUndo[varUndo.length - 1]) : null}
+                    onUndo={undoVarChange}
+                 />
                </div>
 
-               {/* NEW: Live Variable Display */}
-               <div className="pt-6 border-t border-slate-100">
-                    <h3 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
-                       <CheckCircle2 size={16} className="text-emerald-500"/>
-                       Active Model Variables ({BASE_VARS.length + pendingCount})
-                    </h3>
-                    <div className="flex flex-wrap gap-2">
-                       {/* Render Base Vars */}
-                       {BASE_VARS.map(v => (
-                          <span key={v} className="px-3 py-1.5 rounded-lg text-sm font-medium bg-slate-100 text-slate-600 border border-slate-200">
+               <div className="pt-6 mt-6 border-t border-slate-100">
+                    <h3 className="text-sm font-bold text-slate-700 mb-1">Reliability (α, optional)</h3>
+                    <p className="text-xs text-slate-500 mb-3">Reported reliability of each measure. Used to correct the estimates for measurement error when you choose a correction in the model step; leave blank for variables measured without error.</p>
+                    <div className="flex flex-wrap gap-3">
+                       {vars.map((v) => (
+                          <label key={v} className="flex items-center gap-2 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1">
                              {v}
-                          </span>
+                             <input
+                                type="number"
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                value={alpha[v] ?? ""}
+                                placeholder="α"
+                                onChange={(e) =>
+                                   setAlpha((prev) => {
+                                      const next = { ...prev };
+                                      if (e.target.value === "") delete next[v];
+                                      else next[v] = Number(e.target.value);
+                                      return next;
+                                   })
+                                }
+                                className="w-16 border border-slate-200 rounded-md px-1.5 py-0.5 font-mono text-xs"
+                             />
+                          </label>
                        ))}
-                       {/* Render Pending Vars (Real-time Preview) */}
-                       {pendingNames.slice(0, pendingCount).map((v, i) => {
-                          const name = v.trim() || `Variable ${i + 1}`;
-                          return (
-                            <span key={i} className="px-3 py-1.5 rounded-lg text-sm font-medium bg-indigo-50 text-indigo-700 border border-indigo-200 animate-in fade-in zoom-in duration-300">
-                               {name}
-                            </span>
-                          );
-                       })}
                     </div>
                </div>
             </div>
@@ -1101,9 +897,17 @@ export default function PathModelBuilder() {
                      <h2 className="text-xl font-bold flex items-center gap-2"><TableIcon className="text-indigo-600"/> Correlation Matrix</h2>
                      <p className="text-sm text-slate-500">Input Pearson's <i>r</i> and pairwise sample size <i>N</i> after meta analysis on correlation effect size.</p>
                    </div>
+                   <div className="flex items-center gap-2">
+                   {varUndo.length > 0 && (
+                      <button onClick={undoVarChange} className="flex items-center gap-1 text-xs text-indigo-600 border border-indigo-200 rounded-lg px-2 py-1 hover:bg-indigo-50">
+                         <Undo2 size={12} /> Undo {undoLabel(varUndo[varUndo.length - 1])}
+                      </button>
+                   )}
                    <div className="flex bg-slate-100 p-1 rounded-lg">
                       <button onClick={() => setInputMode("grid")} className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${inputMode==='grid'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Grid Input</button>
                       <button onClick={() => setInputMode("text")} className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${inputMode==='text'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Text Paste</button>
+                      <button onClick={() => setInputMode("studies")} className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${inputMode==='studies'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Studies (TSSEM)</button>
+                   </div>
                    </div>
                 </div>
 
@@ -1113,11 +917,22 @@ export default function PathModelBuilder() {
                 <div className="flex-1 border border-slate-200 rounded-xl overflow-hidden bg-slate-50 relative">
                    {inputMode === 'grid' ? (
                       <div className="overflow-auto h-[400px]">
+                        <label className="absolute bottom-2 right-3 z-30 flex items-center gap-1 text-[11px] text-slate-500 bg-white/90 px-2 py-1 rounded-lg border border-slate-200">
+                           <input type="checkbox" checked={showHetInputs} onChange={(e) => setShowHetInputs(e.target.checked)} />
+                           k, τ², Q per pair
+                        </label>
                         <table className="w-full text-xs border-collapse">
                            <thead className="bg-white sticky top-0 z-10 shadow-sm">
                               <tr>
                                  <th className="p-3 text-left bg-slate-50 border-b border-r sticky left-0 z-20">Variables</th>
-                                 {vars.map(v => <th key={v} className="p-3 text-left font-medium text-slate-600 border-b min-w-[140px]">{v}</th>)}
+                                 {vars.map(v => (
+                                    <th key={v} className="p-3 text-left font-medium text-slate-600 border-b min-w-[140px]">
+                                       <div className="flex items-center gap-1">
+                                          <NameInput value={v} onCommit={(name) => renameVar(v, name)} className="w-full min-w-0 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-indigo-500 outline-none font-medium text-slate-600" />
+                                          <button onClick={() => removeVar(v)} className="text-slate-300 hover:text-rose-600 px-1" title={`Delete ${v}`}>×</button>
+                                       </div>
+                                    </th>
+                                 ))}
                               </tr>
                            </thead>
                            <tbody>
@@ -1149,6 +964,20 @@ export default function PathModelBuilder() {
                                                          placeholder="-"
                                                       />
                                                    </div>
+                                                   {showHetInputs && ([
+                                                      ["k", "k", "1"],
+                                                      ["τ²", "tau2", "0.001"],
+                                                      ["Q", "Q", "0.1"],
+                                                   ] as const).map(([label, key, step]) => (
+                                                      <div key={key} className="flex items-center gap-2 mt-1">
+                                                         <span className="text-[10px] font-bold text-slate-400 w-3">{label}</span>
+                                                         <input type="number" step={step} min={0} className="w-full bg-transparent border-b border-slate-200 focus:border-indigo-500 outline-none text-slate-500 text-[11px]"
+                                                            value={cell[key] !== undefined && Number.isFinite(cell[key]) ? cell[key] : ''}
+                                                            onChange={e => setCell(r,c,{[key]: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                                                            placeholder="-"
+                                                         />
+                                                      </div>
+                                                   ))}
                                                 </div>
                                              )}
                                           </td>
@@ -1159,10 +988,10 @@ export default function PathModelBuilder() {
                            </tbody>
                         </table>
                       </div>
-                   ) : (
+                   ) : inputMode === 'text' ? (
                       <div className="p-4 h-full flex flex-col">
                          <div className="text-xs text-slate-500 mb-2">
-                            Paste matrix (lower triangular entries automatically filled for base variables).
+                            Paste matrix (lower triangular entries automatically filled for base variables). Cells are <code className="font-mono">r|n</code>, optionally followed by <code className="font-mono">|k|τ²|Q</code> (e.g. <code className="font-mono">.45|800|6|0.012|21.3</code>; leave unknown fields empty).
                          </div>
                          <textarea 
                            className="flex-1 w-full border border-slate-300 rounded-lg p-3 font-mono text-xs resize-none h-[400px]"
@@ -1175,13 +1004,76 @@ export default function PathModelBuilder() {
                               try {
                                  const p = parseCombinedMatrixText(matrixText);
                                  setCellM(p.cellMatrix);
+                                 setStage1(null);
                               } catch(e) { setMatrixErrors([(e as Error).message]) }
                            }} className="bg-slate-800 text-white px-4 py-2 rounded-lg text-sm">Load Text</button>
                            <button onClick={() => setMatrixText(generateDefaultMatrixText(vars))} className="text-slate-600 px-4 py-2 text-sm">Reset Template</button>
                          </div>
                       </div>
+                   ) : (
+                      <div className="p-4 h-full flex flex-col">
+                         <div className="text-xs text-slate-500 mb-2">
+                            Stage 1 of two-stage MASEM. Paste one block per study: a header line <code className="font-mono">#&nbsp;Study name; n=250</code> followed by its correlation matrix (plain <i>r</i>, lower triangle is enough). Studies may omit variables; leave unreported cells empty. Numeric study characteristics in the header (e.g. <code className="font-mono">year=2019</code>) can be used as moderators in step 3.
+                         </div>
+                         <textarea 
+                           className="flex-1 w-full border border-slate-300 rounded-lg p-3 font-mono text-xs resize-none h-[260px]"
+                           value={studiesText}
+                           onChange={e => setStudiesText(e.target.value)}
+                           placeholder={`# Smith2019; n=250\n,${vars.slice(0, 3).join(",")}\n${vars[0] ?? "A"},1\n${vars[1] ?? "B"},.62,1\n${vars[2] ?? "C"},.48,.55,1\n\n# Lee2021; n=410\n...`}
+                         />
+                         <div className="mt-3 flex items-center gap-2">
+                           <select value={poolMethod} onChange={e => setPoolMethod(e.target.value as PoolingMethod)} className="border border-slate-300 rounded-lg px-2 py-2 text-sm bg-white">
+                              <option value="random">Random-effects GLS</option>
+                              <option value="fixed">Fixed-effects GLS</option>
+                           </select>
+                           <button onClick={poolStudies} className="bg-slate-800 text-white px-4 py-2 rounded-lg text-sm">Pool Studies</button>
+                         </div>
+                         {stage1 && (
+                            <div className="mt-4 bg-white border border-slate-200 rounded-lg overflow-auto max-h-[220px]">
+                               <div className="px-3 py-2 text-xs text-slate-600 border-b border-slate-100">
+                                  Pooled {stage1.studyCount} studies ({stage1.method}-effects). Homogeneity Q = {stage1.Qtotal.toFixed(2)}, df = {stage1.dfTotal}. The pooled matrix and its asymptotic covariance are used in stage 2.
+                               </div>
+                               <table className="w-full text-xs">
+                                  <thead className="text-slate-500">
+                                     <tr>
+                                        <th className="px-3 py-1 text-left">Pair</th>
+                                        <th className="px-3 py-1 text-right">k</th>
+                                        <th className="px-3 py-1 text-right">N</th>
+                                        <th className="px-3 py-1 text-right">Pooled r</th>
+                                        <th className="px-3 py-1 text-right">S.E.</th>
+                                        <th className="px-3 py-1 text-right">τ²</th>
+                                     </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-slate-100 font-mono">
+                                     {offDiagPairs(stage1.vars.length).map(([i, j], e) => (
+                                        <tr key={e}>
+                                           <td className="px-3 py-1 font-sans">{stage1.vars[j]} – {stage1.vars[i]}</td>
+                                           <td className="px-3 py-1 text-right">{stage1.k[e]}</td>
+                                           <td className="px-3 py-1 text-right">{stage1.nTotal[e]}</td>
+                                           <td className="px-3 py-1 text-right">{stage1.pooled[i][j].toFixed(3)}</td>
+                                           <td className="px-3 py-1 text-right">{Math.sqrt(stage1.acov[e][e]).toFixed(4)}</td>
+                                           <td className="px-3 py-1 text-right">{stage1.tau2[e].toFixed(4)}</td>
+                                        </tr>
+                                     ))}
+                                  </tbody>
+                               </table>
+                            </div>
+                         )}
+                      </div>
                    )}
                 </div>
+                <PositiveDefinitePanel
+                   vars={vars}
+                   cellM={cellM}
+                   onApply={(next) => {
+                      setCellM(next);
+                      setMatrixText(formatMatrixText(vars, next));
+                      setStage1(null);
+                      setLastEst(null);
+                      setMatrixWarnings([]);
+                   }}
+                />
+                <HeterogeneityPanel vars={vars} cellM={cellM} />
              </div>
           )}
 
@@ -1200,9 +1092,76 @@ export default function PathModelBuilder() {
                            <option value="min">Minimum N</option>
                         </select>
                      </div>
+                     <div className="text-xs font-medium px-3 py-1 bg-slate-100 rounded-lg text-slate-600">
+                        Estimator:
+                        <select value={estimator} onChange={e => setEstimator(e.target.value as Estimator)} className="bg-transparent ml-1 outline-none font-bold text-indigo-700">
+                           <option value="ML">Maximum likelihood</option>
+                           <option value="WLS">WLS (TSSEM stage 2)</option>
+                           <option value="OLS">OLS per equation</option>
+                           <option value="2SLS">2SLS (feedback loops)</option>
+                        </select>
+                     </div>
+                     <div className="flex bg-slate-100 p-1 rounded-lg">
+                        <button onClick={() => setEdgeKind("path")} className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${edgeKind==='path'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Path →</button>
+                        <button onClick={() => setEdgeKind("cov")} className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${edgeKind==='cov'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Covariance ↔</button>
+                     </div>
                      <button onClick={() => setEdges([])} className="text-xs text-rose-600 font-semibold px-3 py-1 border border-rose-200 rounded-lg hover:bg-rose-50">Clear Edges</button>
                   </div>
                 </div>
+
+                <div className="flex items-start gap-3 mb-3 text-xs">
+                   <div className="flex bg-slate-100 p-1 rounded-lg shrink-0">
+                      <button onClick={() => setWeighting("fixed")} className={`px-3 py-1 rounded-md font-medium transition-all ${weighting==='fixed'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Fixed-effects weights</button>
+                      <button onClick={() => setWeighting("random")} className={`px-3 py-1 rounded-md font-medium transition-all ${weighting==='random'?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>Random-effects weights</button>
+                   </div>
+                   <p className="text-slate-500 pt-1">
+                      {weighting === "fixed"
+                         ? "Each pooled r is treated as an estimate of one common correlation: its only uncertainty is sampling error from N. Appropriate when the studies agree."
+                         : "Each pooled r is the mean of study correlations that truly differ, so its variance also includes τ²/k. SEs widen and χ² shrinks when studies disagree. Uses τ² (or Q) and k from step 1, or the random-effects stage-1 pooling; applies to WLS and OLS."}
+                   </p>
+                </div>
+
+                <div className="flex items-start gap-3 mb-3 text-xs">
+                   <div className="flex bg-slate-100 p-1 rounded-lg shrink-0">
+                      {([["none", "No correction"], ["disattenuate", "Disattenuate r"], ["single-indicator", "Single-indicator latents"]] as const).map(([mode, label]) => (
+                         <button key={mode} onClick={() => setCorrection(mode)} className={`px-3 py-1 rounded-md font-medium transition-all ${correction===mode?'bg-white shadow-sm text-indigo-700':'text-slate-500'}`}>{label}</button>
+                      ))}
+                   </div>
+                   <p className="text-slate-500 pt-1">
+                      {correction === "none"
+                         ? "Correlations are analysed as observed, so measurement error attenuates the paths."
+                         : correction === "disattenuate"
+                         ? "Each r is divided by √(αx·αy) before estimation; a corrected value above 1 is truncated with a warning."
+                         : "Each variable with α < 1 becomes a latent true score measured by itself, with error variance fixed at 1 − α (ML and WLS)."}
+                      {correction !== "none" && ` Reliabilities from setup: ${Object.entries(reliabilitiesOf(alpha, vars)).map(([v, a]) => `${v} ${a}`).join(", ") || "none entered"}. Results are shown next to the uncorrected estimates.`}
+                   </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+                   <span className="font-bold text-slate-500 uppercase">Saved models</span>
+                   {savedModels.map((m) => (
+                      <span key={m.name} className="flex items-center gap-1 bg-indigo-50 border border-indigo-100 rounded-lg pl-2 pr-1 py-0.5">
+                         <button onClick={() => setEdges(m.edges.filter((e) => nodes.includes(e.from) && nodes.includes(e.to)))} className="font-medium text-indigo-700 hover:underline" title="Load this model">{m.name}</button>
+                         <button onClick={() => setSavedModels((prev) => prev.filter((x) => x.name !== m.name))} className="text-slate-400 hover:text-rose-600 px-1" title="Delete">×</button>
+                      </span>
+                   ))}
+                   <input value={modelName} onChange={(e) => setModelName(e.target.value)} placeholder={`Model ${savedModels.length + 1}`} className="border border-slate-200 rounded-lg px-2 py-1 w-32" />
+                   <button onClick={saveCurrentModel} disabled={!edges.length} className="border border-indigo-200 text-indigo-600 font-semibold px-3 py-1 rounded-lg hover:bg-indigo-50 disabled:opacity-40">Save current model</button>
+                </div>
+
+                <ErrorBox title="Cannot Estimate" items={matrixErrors} tone="error" />
+                <ErrorBox title="Estimation Error" items={estError ? [estError] : []} tone="error" />
+                {loops.length > 0 && (
+                   <ErrorBox
+                      title="Non-recursive model: feedback loop detected"
+                      items={[
+                         ...loops.map((b) => `${describeCycle(b, edges)} (estimate with ML, WLS or 2SLS)`),
+                         ...identProblems,
+                      ]}
+                      tone="warn"
+                   />
+                )}
+                <ErrorBox title="Multicollinearity among predictors" items={collinearityWarnings(collinearity)} tone="warn" />
                 
                 <div className="flex-1 bg-slate-50 border border-slate-200 rounded-xl relative overflow-hidden select-none">
                   {connectFrom && (
@@ -1222,39 +1181,62 @@ export default function PathModelBuilder() {
                         <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="28" refY="3.5" orient="auto">
                            <polygon points="0 0, 10 3.5, 0 7" fill="#64748b" />
                         </marker>
+                        <marker id="arrowhead-cov" markerWidth="10" markerHeight="7" refX="28" refY="3.5" orient="auto-start-reverse">
+                           <polygon points="0 0, 10 3.5, 0 7" fill="#64748b" />
+                        </marker>
                      </defs>
 
+                     {latents.flatMap((l) =>
+                        l.indicators.map((x) => {
+                           const p1 = nodePos[l.name], p2 = nodePos[x];
+                           if (!p1 || !p2) return null;
+                           return <line key={`${l.name}->${x}`} x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#a5b4fc" strokeWidth="2" markerEnd="url(#arrowhead)" />;
+                        })
+                     )}
+
                      {edges.map((e, idx) => {
                         const p1 = nodePos[e.from], p2 = nodePos[e.to];
                         if(!p1 || !p2) return null;
                         const mx = (p1.x + p2.x)/2, my = (p1.y + p2.y)/2;
                         const dx = p2.x - p1.x, dy = p2.y - p1.y;
                         const norm = Math.sqrt(dx*dx + dy*dy) || 1;
-                        const off = 20; 
+                        const off = e.kind === "cov" ? 60 : 20; 
                         const cx = mx - (dy/norm)*off, cy = my + (dx/norm)*off;
                         const d = `M ${p1.x} ${p1.y} Q ${cx} ${cy} ${p2.x} ${p2.y}`;
+                        const tag = [e.label, e.fixed !== undefined ? `=${e.fixed}` : ""].filter(Boolean).join(" ");
                         
                         return (
                            <g key={idx} onClick={() => setEdges(prev => prev.filter((_,i) => i !== idx))} className="group cursor-pointer">
-                              <path d={d} stroke="#94a3b8" strokeWidth="2" fill="none" markerEnd="url(#arrowhead)" className="group-hover:stroke-rose-400 transition-colors"/>
+                              {e.kind === "cov" ? (
+                                 <path d={d} stroke="#94a3b8" strokeWidth="2" strokeDasharray="5 4" fill="none" markerStart="url(#arrowhead-cov)" markerEnd="url(#arrowhead-cov)" className="group-hover:stroke-rose-400 transition-colors"/>
+                              ) : (
+                                 <path d={d} stroke="#94a3b8" strokeWidth="2" fill="none" markerEnd="url(#arrowhead)" className="group-hover:stroke-rose-400 transition-colors"/>
+                              )}
                               <path d={d} stroke="transparent" strokeWidth="15" fill="none" /> 
+                              {tag && (
+                                 <text x={(mx + cx) / 2} y={(my + cy) / 2 - 4} textAnchor="middle" className="text-[10px] font-mono font-bold fill-indigo-600 pointer-events-none" stroke="#f8fafc" strokeWidth="3" paintOrder="stroke">
+                                    {tag}
+                                 </text>
+                              )}
                            </g>
                         )
                      })}
 
-                     {vars.map(v => {
+                     {nodes.map(v => {
                         const p = nodePos[v];
                         if(!p) return null;
                         const isSelected = connectFrom === v;
+                        const level = collinearityLevel.get(v);
+                        const shape = {
+                           className: `transition-all duration-300 ${isSelected ? 'fill-indigo-100 stroke-indigo-500 stroke-[3px]' : level === 'severe' ? 'fill-rose-50 stroke-rose-400 stroke-[3px]' : level === 'moderate' ? 'fill-amber-50 stroke-amber-400 stroke-[3px]' : vars.includes(v) ? 'fill-white stroke-slate-300 stroke-2 hover:stroke-indigo-400' : 'fill-indigo-50 stroke-indigo-300 stroke-2 hover:stroke-indigo-400'}`,
+                           onPointerDown: (e: React.PointerEvent<SVGGraphicsElement>) => onPointerDownNode(e, v),
+                           onClick: (e: React.MouseEvent) => { e.stopPropagation(); onNodeClick(v); },
+                           style: { cursor: 'grab' },
+                        };
                         return (
                            <g key={v} transform={`translate(${p.x},${p.y})`}>
-                              <circle 
-                                 r="40" 
-                                 className={`transition-all duration-300 ${isSelected ? 'fill-indigo-100 stroke-indigo-500 stroke-[3px]' : 'fill-white stroke-slate-300 stroke-2 hover:stroke-indigo-400'}`}
-                                 onPointerDown={e => onPointerDownNode(e, v)}
-                                 onClick={(e) => { e.stopPropagation(); onNodeClick(v); }}
-                                 style={{ cursor: 'grab' }}
-                              />
+                              {level && level !== 'none' && <title>{`${level === 'severe' ? 'Severe' : 'Moderate'} multicollinearity among the predictors of ${v}`}</title>}
+                              {vars.includes(v) ? <circle r="40" {...shape} /> : <ellipse rx="52" ry="34" {...shape} />}
                               <text dy="4" textAnchor="middle" className={`text-[11px] font-bold select-none pointer-events-none ${isSelected ? 'fill-indigo-700' : 'fill-slate-700'}`}>
                                  {v}
                               </text>
@@ -1263,6 +1245,41 @@ export default function PathModelBuilder() {
                      })}
                   </svg>
                 </div>
+
+                {edges.length > 0 && (
+                   <div className="mt-4 bg-white border border-slate-200 rounded-xl overflow-hidden">
+                      <div className="px-4 py-2 border-b border-slate-100 text-xs text-slate-500">
+                         <span className="font-bold uppercase">Edge constraints</span> · Edges sharing a label are estimated as equal; a fixed value is held at that value (ML and WLS only). Labels are also the names used by the Wald test.
+                      </div>
+                      <div className="max-h-48 overflow-y-auto divide-y divide-slate-100">
+                         {edges.map((e, idx) => (
+                            <div key={idx} className="flex items-center gap-3 px-4 py-1.5 text-xs">
+                               <span className="w-40 font-medium text-slate-700">{e.from} <span className="text-slate-300">{e.kind === "cov" ? "↔" : "→"}</span> {e.to}</span>
+                               <label className="flex items-center gap-1 text-slate-500">
+                                  Label
+                                  <input value={e.label ?? ""} onChange={(ev) => updateEdge(idx, { label: ev.target.value.trim() || undefined })} placeholder="b1" className="w-20 border border-slate-200 rounded-lg px-2 py-0.5 font-mono" />
+                               </label>
+                               <label className="flex items-center gap-1 text-slate-500">
+                                  Fixed at
+                                  <input type="number" step={0.05} value={e.fixed ?? ""} onChange={(ev) => updateEdge(idx, { fixed: ev.target.value === "" ? undefined : Number(ev.target.value) })} placeholder="free" className="w-20 border border-slate-200 rounded-lg px-2 py-0.5 font-mono" />
+                               </label>
+                               <button onClick={() => setEdges((prev) => prev.filter((_, i) => i !== idx))} className="ml-auto text-slate-400 hover:text-rose-600 px-1" title="Delete edge">×</button>
+                            </div>
+                         ))}
+                      </div>
+                   </div>
+                )}
+
+                <CollinearityPanel items={collinearity} />
+
+                <LatentVariablesPanel
+                   vars={vars}
+                   latents={latents}
+                   onAdd={addLatent}
+                   onRename={renameLatent}
+                   onRemove={removeLatent}
+                   onToggleIndicator={toggleIndicator}
+                />
              </div>
           )}
 
@@ -1272,9 +1289,29 @@ export default function PathModelBuilder() {
                    <div className="p-3 bg-emerald-100 text-emerald-700 rounded-xl"><Calculator size={24}/></div>
                    <div>
                       <h2 className="text-2xl font-bold text-slate-800">Estimation Results</h2>
-                      <p className="text-sm text-slate-500">Based on Recursive Path Analysis (OLS per equation).</p>
+                      <p className="text-sm text-slate-500">
+                         {lastEst.fit.estimator === "ML" ? (
+                            <>Based on full-information maximum likelihood (Fisher scoring, OLS starting values). χ² is the minimized ML discrepancy.</>
+                         ) : lastEst.fit.estimator === "2SLS" ? (
+                            <>Based on two-stage least squares per equation; loop equations use the predetermined variables of their feedback block as instruments.</>
+                         ) : lastEst.fit.estimator === "WLS" ? (
+                            <>Based on WLS stage-2 estimation weighted by the asymptotic covariance of the pooled correlations{lastEst.stage1 ? ` from stage 1 (${lastEst.stage1.method}-effects, ${lastEst.stage1.studyCount} studies)` : " (pairwise n)"}{lastEst.randomEffects ? `, plus τ²/k for ${lastEst.randomEffects.pairs} pairs (random-effects weights)` : ""}. χ² is the WLS discrepancy.</>
+                         ) : (
+                            <>
+                               Based on Recursive Path Analysis (OLS per equation).
+                               {lastEst.stage1 && <> S.E. from the stage-1 {lastEst.stage1.method}-effects pooled covariance of {lastEst.stage1.studyCount} studies (delta method).</>}
+                               {lastEst.randomEffects && <> S.E. by the delta method from the random-effects covariance of the pooled correlations (τ²/k added for {lastEst.randomEffects.pairs} pairs).</>}
+                            </>
+                         )}
+                      </p>
                    </div>
-                   <div className="ml-auto flex gap-2">
+                   <div className="ml-auto flex gap-4">
+                       {lastEst.stability !== undefined && (
+                          <div className="text-right" title="Stability index of the feedback loops; values ≥ 1 do not converge to an equilibrium">
+                             <div className="text-xs text-slate-400 uppercase font-bold tracking-wider">Stability</div>
+                             <div className={`font-mono font-bold text-lg ${lastEst.stability < 1 ? "text-slate-700" : "text-rose-600"}`}>{lastEst.stability.toFixed(3)}</div>
+                          </div>
+                       )}
                        <div className="text-right">
                           <div className="text-xs text-slate-400 uppercase font-bold tracking-wider">Total N</div>
                           <div className="font-mono font-bold text-lg text-slate-700">{lastEst.fit.totalN.toFixed(0)}</div>
@@ -1286,14 +1323,33 @@ export default function PathModelBuilder() {
 
                 <div className="mb-6 bg-white border border-slate-200 rounded-xl relative overflow-hidden h-[450px]">
                    <div className="absolute top-2 left-2 z-10 bg-white/90 px-2 py-1 rounded text-xs text-slate-500 font-medium">
-                      Path Diagram Results (β shown on paths, R² above nodes)
+                      Path Diagram Results (β shown on paths{lastEst.measurement ? ", standardized λ on loadings" : ""}, R² above nodes)
                    </div>
                    <svg viewBox="0 0 800 450" className="w-full h-full">
                      <defs>
                         <marker id="arrowhead-res" markerWidth="10" markerHeight="7" refX="28" refY="3.5" orient="auto">
                            <polygon points="0 0, 10 3.5, 0 7" fill="#475569" />
                         </marker>
+                        <marker id="arrowhead-res-cov" markerWidth="10" markerHeight="7" refX="28" refY="3.5" orient="auto-start-reverse">
+                           <polygon points="0 0, 10 3.5, 0 7" fill="#475569" />
+                        </marker>
                      </defs>
+                     {lastEst.measurement?.flatMap((m) =>
+                        m.loadings.map((l) => {
+                           const p1 = nodePos[m.latent], p2 = nodePos[l.indicator];
+                           if (!p1 || !p2) return null;
+                           const lx = p1.x + (p2.x - p1.x) * 0.45, ly = p1.y + (p2.y - p1.y) * 0.45;
+                           return (
+                              <g key={`${m.latent}->${l.indicator}`}>
+                                 <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#818cf8" strokeWidth="2" markerEnd="url(#arrowhead-res)" />
+                                 <rect x={lx - 22} y={ly - 9} width="44" height="18" rx="4" fill="#eef2ff" stroke="#c7d2fe" />
+                                 <text x={lx} y={ly} dy="4" textAnchor="middle" fontSize="10" fill="#3730a3" fontWeight="bold">
+                                    {l.lambda.toFixed(2)}{getSignificanceStar(l.p)}
+                                 </text>
+                              </g>
+                           );
+                        })
+                     )}
                      {lastEst.coeffs.map((c, idx) => {
                         const p1 = nodePos[c.from], p2 = nodePos[c.to];
                         if(!p1 || !p2) return null;
@@ -1301,7 +1357,7 @@ export default function PathModelBuilder() {
                         const mx = (p1.x + p2.x)/2, my = (p1.y + p2.y)/2;
                         const dx = p2.x - p1.x, dy = p2.y - p1.y;
                         const norm = Math.sqrt(dx*dx + dy*dy) || 1;
-                        const off = 20; 
+                        const off = c.kind === "cov" ? 60 : 20; 
                         const cx = mx - (dy/norm)*off, cy = my + (dx/norm)*off;
                         const d = `M ${p1.x} ${p1.y} Q ${cx} ${cy} ${p2.x} ${p2.y}`;
 
@@ -1309,7 +1365,11 @@ export default function PathModelBuilder() {
                         
                         return (
                            <g key={idx}>
-                              <path d={d} stroke="#475569" strokeWidth="2" fill="none" markerEnd="url(#arrowhead-res)"/>
+                              {c.kind === "cov" ? (
+                                 <path d={d} stroke="#475569" strokeWidth="2" strokeDasharray="5 4" fill="none" markerStart="url(#arrowhead-res-cov)" markerEnd="url(#arrowhead-res-cov)"/>
+                              ) : (
+                                 <path d={d} stroke="#475569" strokeWidth="2" fill="none" markerEnd="url(#arrowhead-res)"/>
+                              )}
                               <rect x={cx - 24} y={cy - 10} width="48" height="20" rx="4" fill="white" stroke="#e2e8f0" />
                               <text x={cx} y={cy} dy="4" textAnchor="middle" fontSize="11" fill="#1e293b" fontWeight="bold">
                                  {c.beta.toFixed(2)}{sig}
@@ -1318,19 +1378,23 @@ export default function PathModelBuilder() {
                         )
                      })}
 
-                     {vars.map(v => {
+                     {nodes.map(v => {
                         const p = nodePos[v];
                         if(!p) return null;
                         const r2Val = lastEst.r2[v];
                         
                         return (
                            <g key={v} transform={`translate(${p.x},${p.y})`}>
-                              <circle 
-                                 r="40" 
-                                 fill="#f1f5f9"
-                                 stroke="#cbd5e1" 
-                                 strokeWidth="2"
-                              />
+                              {vars.includes(v) ? (
+                                 <circle 
+                                    r="40" 
+                                    fill="#f1f5f9"
+                                    stroke="#cbd5e1" 
+                                    strokeWidth="2"
+                                 />
+                              ) : (
+                                 <ellipse rx="52" ry="34" fill="#eef2ff" stroke="#a5b4fc" strokeWidth="2" />
+                              )}
                               <text dy="4" textAnchor="middle" className="text-[11px] font-bold fill-slate-700">
                                  {v}
                               </text>
@@ -1348,7 +1412,14 @@ export default function PathModelBuilder() {
                 <div className="grid lg:grid-cols-3 gap-6">
                    <div className="lg:col-span-1 space-y-4">
                       <div className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm">
-                         <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><Settings2 size={16}/> Model Fit Indices</h3>
+                         <div className="flex items-center justify-between mb-4">
+                            <h3 className="font-bold text-slate-800 flex items-center gap-2"><Settings2 size={16}/> Model Fit Indices</h3>
+                            <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+                               {(["short", "full"] as const).map((v) => (
+                                  <button key={v} onClick={() => setFitView(v)} className={`px-2 py-0.5 rounded-md capitalize ${fitView === v ? "bg-white shadow-sm font-bold text-slate-700" : "text-slate-500"}`}>{v}</button>
+                               ))}
+                            </div>
+                         </div>
                          <div className="space-y-3">
                             <div className="flex justify-between items-center pb-2 border-b border-slate-50">
                                <span className="text-sm text-slate-500">SRMR</span>
@@ -1360,6 +1431,18 @@ export default function PathModelBuilder() {
                                     <span className="text-sm text-slate-500">RMSEA</span>
                                     <span className={`font-mono font-bold ${lastEst.fit.rmsea < 0.08 ? 'text-emerald-600' : 'text-amber-600'}`}>{lastEst.fit.rmsea.toFixed(4)}</span>
                                  </div>
+                                 {lastEst.fit.rmseaCI && (
+                                    <div className="flex justify-between items-center pb-2 border-b border-slate-50">
+                                       <span className="text-sm text-slate-500">RMSEA 90% CI</span>
+                                       <span className="font-mono text-sm text-slate-700">[{lastEst.fit.rmseaCI[0].toFixed(4)}, {lastEst.fit.rmseaCI[1].toFixed(4)}]</span>
+                                    </div>
+                                 )}
+                                 {lastEst.fit.pclose !== undefined && (
+                                    <div className="flex justify-between items-center pb-2 border-b border-slate-50">
+                                       <span className="text-sm text-slate-500" title="p-value of H0: RMSEA ≤ .05">PCLOSE</span>
+                                       <span className={`font-mono font-bold ${lastEst.fit.pclose > 0.05 ? 'text-emerald-600' : 'text-amber-600'}`}>{lastEst.fit.pclose.toFixed(3)}</span>
+                                    </div>
+                                 )}
                                  <div className="flex justify-between items-center pb-2 border-b border-slate-50">
                                     <span className="text-sm text-slate-500">CFI</span>
                                     <span className={`font-mono font-bold ${lastEst.fit.cfi! > 0.9 ? 'text-emerald-600' : 'text-amber-600'}`}>{lastEst.fit.cfi!.toFixed(4)}</span>
@@ -1370,29 +1453,88 @@ export default function PathModelBuilder() {
                                  </div>
                                  <div className="flex justify-between items-center pt-2">
                                     <span className="text-sm text-slate-500">Chi-Square (df={lastEst.fit.df})</span>
-                                    <span className="font-mono font-bold text-slate-700">{lastEst.fit.chi2!.toFixed(2)}</span>
+                                    <span className="font-mono font-bold text-slate-700">
+                                       {lastEst.fit.chi2!.toFixed(2)}
+                                       {lastEst.fit.chi2p !== undefined && (
+                                          <span className="ml-2 text-xs font-normal text-slate-500">{lastEst.fit.chi2p < 0.001 ? "p < .001" : `p = ${lastEst.fit.chi2p.toFixed(3)}`}</span>
+                                       )}
+                                    </span>
                                  </div>
                                </>
                             ) : (
                                <div className="text-xs text-slate-400 italic">Saturated model (df=0). Perfect fit assumed.</div>
                             )}
+                            {fitView === "full" && (
+                               <div className="pt-3 mt-1 border-t border-slate-200 space-y-2">
+                                  {([
+                                     ["GFI", lastEst.fit.gfi, 4],
+                                     ["AGFI", lastEst.fit.agfi, 4],
+                                     ["NFI", lastEst.fit.nfi, 4],
+                                     ["IFI", lastEst.fit.ifi, 4],
+                                     ["AIC", lastEst.fit.aic, 2],
+                                     ["BIC", lastEst.fit.bic, 2],
+                                     ["SABIC", lastEst.fit.sabic, 2],
+                                     ["ECVI", lastEst.fit.ecvi, 4],
+                                     ["Log-likelihood", lastEst.fit.logLik, 2],
+                                  ] as const).map(([label, value, digits]) => (
+                                     <div key={label} className="flex justify-between items-center text-sm">
+                                        <span className="text-slate-500">{label}</span>
+                                        <span className="font-mono text-slate-700">{value !== undefined && Number.isFinite(value) ? value.toFixed(digits) : "—"}</span>
+                                     </div>
+                                  ))}
+                                  <div className="text-[11px] text-slate-400 pt-1">
+                                     Information criteria use the normal-theory log-likelihood of the implied matrix with {lastEst.fit.freeParams} free parameters; smaller is better when comparing models for the same matrix.
+                                  </div>
+                               </div>
+                            )}
                          </div>
                       </div>
                    </div>
 
                    <div className="lg:col-span-2">
                       <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
-                         <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+                         <div className="bg-slate-50 px-5 py-3 border-b border-slate-200 flex flex-wrap items-center gap-3">
                             <h3 className="font-bold text-slate-700">Path Coefficients</h3>
+                            <div className="ml-auto flex flex-wrap items-center gap-2 text-xs">
+                               <select value={ciMethod} onChange={(e) => setCiMethod(e.target.value as ResamplingMethod)} className="border border-slate-200 rounded-lg px-2 py-1 bg-white">
+                                  <option value="montecarlo">Monte Carlo</option>
+                                  <option value="bootstrap" disabled={latents.length > 0 || !!lastEst.reliability}>Parametric bootstrap{latents.length > 0 || lastEst.reliability ? " (observed variables only)" : ""}</option>
+                               </select>
+                               <label className="flex items-center gap-1 text-slate-500">
+                                  Draws
+                                  <input type="number" min={100} step={100} value={ciDraws} onChange={(e) => setCiDraws(Number(e.target.value))} className="w-20 border border-slate-200 rounded-lg px-2 py-1 font-mono" />
+                               </label>
+                               <select value={ciType} onChange={(e) => setCiType(e.target.value as "percentile" | "bc")} className="border border-slate-200 rounded-lg px-2 py-1 bg-white">
+                                  <option value="percentile">Percentile</option>
+                                  <option value="bc">Bias-corrected</option>
+                               </select>
+                               <button onClick={runResampling} className="bg-indigo-600 text-white px-3 py-1 rounded-lg font-bold hover:bg-indigo-700">Compute CIs</button>
+                               {lastEst.fit.estimator === "ML" && !lastEst.reliability && (
+                                  <>
+                                     <button onClick={runProfiles} className="border border-indigo-200 text-indigo-600 px-3 py-1 rounded-lg font-bold hover:bg-indigo-50">Profile-likelihood CIs</button>
+                                     {!latents.length && correction !== "single-indicator" && <button onClick={runModIndices} className="border border-indigo-200 text-indigo-600 px-3 py-1 rounded-lg font-bold hover:bg-indigo-50">Modification indices</button>}
+                                  </>
+                               )}
+                            </div>
                          </div>
+                         {resampleError && <div className="px-5 py-2 text-xs text-red-600 border-b border-slate-100">{resampleError}</div>}
+                         {resampled && (
+                            <div className="px-5 py-2 text-xs text-slate-500 border-b border-slate-100">
+                               {Math.round(resampled.level * 100)}% {ciType === "bc" ? "bias-corrected" : "percentile"} intervals from {resampled.valid} of {resampled.draws} {resampled.method === "bootstrap" ? "parametric bootstrap draws (Wishart, harmonic N; paths re-estimated by OLS/2SLS)" : "Monte Carlo draws of the coefficients"}.
+                            </div>
+                         )}
                          <div className="overflow-x-auto">
                            <table className="w-full text-sm text-left">
                               <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
                                  <tr>
                                     <th className="px-5 py-3">Path</th>
                                     <th className="px-5 py-3 text-right">Std. β</th>
+                                    {resampled && <th className="px-5 py-3 text-right">{Math.round(resampled.level * 100)}% CI</th>}
+                                    {profiled && <th className="px-5 py-3 text-right">Profile 95% CI</th>}
                                     <th className="px-5 py-3 text-right">S.E.</th>
-                                    <th className="px-5 py-3 text-right">t-value</th>
+                                    <th className="px-5 py-3 text-right">
+                                       {lastEst.coeffs.every((c) => c.df !== undefined) ? "t-value" : lastEst.coeffs.some((c) => c.df !== undefined) ? "t / z" : "z-value"}
+                                    </th>
                                     <th className="px-5 py-3 text-right">p-value</th>
                                     <th className="px-5 py-3 text-right">VIF</th>
                                  </tr>
@@ -1401,23 +1543,87 @@ export default function PathModelBuilder() {
                                  {lastEst.coeffs.map((c, i) => (
                                     <tr key={i} className="hover:bg-slate-50 transition-colors">
                                        <td className="px-5 py-3 font-medium text-slate-700">
-                                          <span className="text-slate-500">{c.from}</span> <span className="text-slate-300">→</span> <span className="text-indigo-600">{c.to}</span>
+                                          <span className="text-slate-500">{c.from}</span> <span className="text-slate-300">{c.kind === "cov" ? "↔" : "→"}</span> <span className="text-indigo-600">{c.to}</span>
+                                          {c.kind === "cov" && <span className="ml-2 text-[10px] text-slate-400 uppercase">resid. cov</span>}
+                                          {c.label && <span className="ml-2 text-[10px] font-mono text-indigo-500 bg-indigo-50 rounded px-1">{c.label}</span>}
                                        </td>
                                        <td className="px-5 py-3 text-right font-mono font-bold">{c.beta.toFixed(3)}{getSignificanceStar(c.p)}</td>
-                                       <td className="px-5 py-3 text-right font-mono text-slate-500">{c.se.toFixed(3)}</td>
-                                       <td className="px-5 py-3 text-right font-mono text-slate-500">{c.t.toFixed(2)}</td>
-                                       <td className="px-5 py-3 text-right font-mono">
-                                          {c.p < 0.001 ? <span className="text-emerald-600 font-bold">&lt; .001</span> : 
-                                           c.p < 0.05 ? <span className="text-emerald-600 font-bold">{c.p.toFixed(3)}</span> : 
-                                           <span className="text-slate-400">{c.p.toFixed(3)}</span>}
-                                       </td>
-                                       <td className="px-5 py-3 text-right font-mono text-xs text-slate-400">{c.vif.toFixed(2)}</td>
+                                       {resampled && (
+                                          <td className="px-5 py-3 text-right font-mono text-xs text-slate-500 whitespace-nowrap">
+                                             {c.kind === "path" && resampled.paths[`${c.from}->${c.to}`]
+                                                ? `[${resampled.paths[`${c.from}->${c.to}`][ciType].lo.toFixed(3)}, ${resampled.paths[`${c.from}->${c.to}`][ciType].hi.toFixed(3)}]`
+                                                : "—"}
+                                          </td>
+                                       )}
+                                       {profiled && (
+                                          <td className="px-5 py-3 text-right font-mono text-xs text-slate-500 whitespace-nowrap" title="Bounds shown as — were not reached before the model became inadmissible.">
+                                             {profiled[coefKey(c)]
+                                                ? `[${Number.isFinite(profiled[coefKey(c)].lo) ? profiled[coefKey(c)].lo.toFixed(3) : "—"}, ${Number.isFinite(profiled[coefKey(c)].hi) ? profiled[coefKey(c)].hi.toFixed(3) : "—"}]`
+                                                : "—"}
+                                          </td>
+                                       )}
+                                       {c.fixed ? (
+                                          <td colSpan={3} className="px-5 py-3 text-right text-xs text-slate-400 italic">fixed</td>
+                                       ) : (
+                                          <>
+                                             <td className="px-5 py-3 text-right font-mono text-slate-500">{c.se.toFixed(3)}</td>
+                                             <td className="px-5 py-3 text-right font-mono text-slate-500" title={c.df !== undefined ? `t with ${c.df.toFixed(0)} df (N − k − 1)` : "z (normal reference)"}>{c.t.toFixed(2)}</td>
+                                             <td className="px-5 py-3 text-right font-mono">
+                                                {c.p < 0.001 ? <span className="text-emerald-600 font-bold">&lt; .001</span> : 
+                                                 c.p < 0.05 ? <span className="text-emerald-600 font-bold">{c.p.toFixed(3)}</span> : 
+                                                 <span className="text-slate-400">{c.p.toFixed(3)}</span>}
+                                             </td>
+                                          </>
+                                       )}
+                                       <td className="px-5 py-3 text-right font-mono text-xs text-slate-400">{Number.isFinite(c.vif) ? c.vif.toFixed(2) : "—"}</td>
                                     </tr>
                                  ))}
                               </tbody>
                            </table>
                          </div>
                       </div>
+                      {lastEst.reliability && uncorrected && (
+                         <div className="mt-6">
+                            <ReliabilityComparisonPanel corrected={lastEst} uncorrected={uncorrected.result} error={uncorrected.error} />
+                         </div>
+                      )}
+                      {lastEst.measurement && (
+                         <div className="mt-6">
+                            <MeasurementPanel items={lastEst.measurement} />
+                         </div>
+                      )}
+                      {modIndices && (
+                         <div className="mt-6">
+                            <ModificationIndicesPanel items={modIndices} onAdd={addEdgeFromResults} />
+                         </div>
+                      )}
+                      {lastEst.coeffs.some((c) => c.label) && (
+                         <div className="mt-6">
+                            <WaldTestPanel coeffs={lastEst.coeffs} vcov={lastEst.vcov} />
+                         </div>
+                      )}
+                      {studies && !latents.length && (
+                         <div className="mt-6">
+                            <OsmasemPanel vars={vars} edges={edges} studies={studies} />
+                         </div>
+                      )}
+                      {!latents.length && (
+                         <div className="mt-6">
+                            <MultiGroupPanel vars={vars} edges={edges} nMethod={nMethod} presets={presetGroups} />
+                         </div>
+                      )}
+                      {savedModels.length > 0 && (
+                         <div className="mt-6">
+                            <div className="flex items-center justify-between mb-2">
+                               <span className="text-xs text-slate-500">{savedModels.length} saved model{savedModels.length === 1 ? "" : "s"}: {savedModels.map((m) => m.name).join(", ")}</span>
+                               <button onClick={runComparison} className="text-xs bg-indigo-600 text-white px-3 py-1 rounded-lg font-bold hover:bg-indigo-700">Estimate &amp; compare saved models</button>
+                            </div>
+                            {comparison && <ModelComparisonPanel models={comparison} />}
+                         </div>
+                      )}
+                      <div className="mt-6">
+                         <EffectsPanel vars={nodes} coeffs={lastEst.coeffs} vcov={lastEst.vcov} resampled={resampled} ciType={ciType} />
+                      </div>
                    </div>
                 </div>
              </div>
@@ -0,0 +1,69 @@
+import type { EquationCollinearity } from "../masem/collinearity";
+
+function fmt(x: number, digits: number): string {
+  return Number.isFinite(x) ? x.toFixed(digits) : "∞";
+}
+
+const LEVEL_STYLE = {
+  none: "text-emerald-600",
+  moderate: "text-amber-600",
+  severe: "text-rose-600",
+};
+
+/**
+ * Condition indices, variance-decomposition proportions and tolerances of each equation's
+ * predictors (step 2). Proportions above .5 on a high-index dimension mark the predictors
+ * that are collinear with each other.
+ */
+export default function CollinearityPanel({ items }: { items: EquationCollinearity[] }) {
+  const shown = items.filter((e) => e.predictors.length > 1);
+  if (!shown.length) return null;
+  return (
+    <div className="mt-4 bg-white border border-slate-200 rounded-xl overflow-hidden">
+      <div className="px-4 py-2 border-b border-slate-100 text-xs text-slate-500">
+        <span className="font-bold uppercase">Multicollinearity</span> · Per equation: condition index √(λmax/λ) of the predictors' correlations (≥ 10 moderate, ≥ 30 severe when two or more
+        predictors have proportions &gt; .5 on it) and tolerance 1 − R² of each predictor (&lt; .2 moderate, &lt; .1 severe). Affected targets are coloured in the diagram.
+      </div>
+      <div className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+        {shown.map((e) => (
+          <div key={e.target} className="px-4 py-2 text-xs">
+            <div className="mb-1">
+              <span className="font-semibold text-slate-700">{e.target}</span> <span className="text-slate-400">←</span> {e.predictors.join(", ")}
+              <span className={`ml-2 font-semibold ${LEVEL_STYLE[e.level]}`}>{e.level === "none" ? "no problem" : e.level}</span>
+            </div>
+            <table className="text-right font-mono">
+              <thead className="text-slate-400 font-sans">
+                <tr>
+                  <th className="pr-4 font-normal text-left">Dimension</th>
+                  <th className="pr-4 font-normal">Eigenvalue</th>
+                  <th className="pr-4 font-normal">Cond. index</th>
+                  {e.predictors.map((x) => (
+                    <th key={x} className="pr-4 font-normal">{x}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {e.eigenvalues.map((l, d) => (
+                  <tr key={d}>
+                    <td className="pr-4 text-left font-sans text-slate-500">{d + 1}</td>
+                    <td className="pr-4">{l.toFixed(4)}</td>
+                    <td className={`pr-4 ${e.conditionIndex[d] >= 30 ? "text-rose-600 font-bold" : e.conditionIndex[d] >= 10 ? "text-amber-600 font-bold" : ""}`}>{fmt(e.conditionIndex[d], 2)}</td>
+                    {e.proportions[d].map((x, i) => (
+                      <td key={i} className={`pr-4 ${x > 0.5 ? "text-slate-800 font-bold" : "text-slate-400"}`}>{x.toFixed(2)}</td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-100">
+                  <td colSpan={3} className="pr-4 text-left font-sans text-slate-500">Tolerance</td>
+                  {e.tolerance.map((x, i) => (
+                    <td key={i} className={`pr-4 ${x < 0.1 ? "text-rose-600 font-bold" : x < 0.2 ? "text-amber-600 font-bold" : ""}`}>{x.toFixed(3)}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
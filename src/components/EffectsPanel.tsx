@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import type { Coef, VarName } from "../masem/types";
+import { decomposeEffects, type EffectEstimate } from "../masem/effects";
+import type { Interval, ResampledCI, ResamplingResult } from "../masem/resampling";
+import { getSignificanceStar } from "../masem/estimation";
+import { stabilityIndex } from "../masem/nonrecursive";
+
+function formatCI(ci: ResampledCI | undefined, type: keyof ResampledCI): string {
+  if (!ci) return "";
+  const { lo, hi }: Interval = ci[type];
+  return `[${lo.toFixed(3)}, ${hi.toFixed(3)}]`;
+}
+
+function EffectCells({ e, ci }: { e: EffectEstimate | null; ci?: string }) {
+  if (!e) {
+    return (
+      <>
+        <td className="px-4 py-2 text-right font-mono text-slate-300">—</td>
+        <td className="px-4 py-2 text-right font-mono text-slate-300">—</td>
+      </>
+    );
+  }
+  return (
+    <>
+      <td className="px-4 py-2 text-right font-mono font-bold">{e.est.toFixed(3)}{getSignificanceStar(e.p)}</td>
+      <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">
+        ({e.se.toFixed(3)}) {Number.isFinite(e.p) ? (e.p < 0.001 ? "p < .001" : `p = ${e.p.toFixed(3)}`) : ""}
+        {ci && <div className="text-indigo-500">{ci}</div>}
+      </td>
+    </>
+  );
+}
+
+/**
+ * Direct, indirect and total effects with delta-method SEs, plus the specific indirect routes.
+ * Resampled intervals, when computed, are shown under the indirect effects.
+ */
+export default function EffectsPanel({
+  vars,
+  coeffs,
+  vcov,
+  resampled,
+  ciType,
+}: {
+  vars: VarName[];
+  coeffs: Coef[];
+  vcov: number[][];
+  resampled: ResamplingResult | null;
+  ciType: keyof ResampledCI;
+}) {
+  const stable = useMemo(() => stabilityIndex(vars, coeffs) < 1, [vars, coeffs]);
+  const rows = useMemo(() => (stable ? decomposeEffects(vars, coeffs, vcov) : []), [stable, vars, coeffs, vcov]);
+  const mediated = rows.filter((r) => r.specific.length > 0);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Effects</h3>
+        <p className="text-xs text-slate-500">Standardized direct, indirect and total effects. S.E.s by the delta method.</p>
+      </div>
+      {!stable ? (
+        <div className="p-5 text-sm text-amber-700">The feedback loop is not stable, so total and indirect effects are undefined.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+              <tr>
+                <th className="px-4 py-3">Effect</th>
+                <th className="px-4 py-3 text-right" colSpan={2}>Direct</th>
+                <th className="px-4 py-3 text-right" colSpan={2}>Indirect</th>
+                <th className="px-4 py-3 text-right" colSpan={2}>Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map((r) => (
+                <tr key={`${r.from}->${r.to}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-4 py-2 font-medium text-slate-700">
+                    <span className="text-slate-500">{r.from}</span> <span className="text-slate-300">→</span> <span className="text-indigo-600">{r.to}</span>
+                  </td>
+                  <EffectCells e={r.direct} ci={formatCI(resampled?.paths[`${r.from}->${r.to}`], ciType)} />
+                  <EffectCells e={r.indirect} ci={formatCI(resampled?.indirect[`${r.from}->${r.to}`], ciType)} />
+                  <EffectCells e={r.total} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {mediated.length > 0 && (
+            <div className="border-t border-slate-200 px-5 py-4 space-y-1">
+              <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Specific Indirect Effects</h4>
+              {mediated.flatMap((r) =>
+                r.specific.map((s) => (
+                  <div key={s.route.join(">")} className="flex justify-between text-sm">
+                    <span className="text-slate-600">{s.route.join(" → ")}</span>
+                    <span className="font-mono">
+                      <span className="font-bold">{s.est.toFixed(3)}{getSignificanceStar(s.p)}</span>{" "}
+                      <span className="text-xs text-slate-400">({s.se.toFixed(3)})</span>
+                      {resampled && <span className="ml-2 text-xs text-indigo-500">{formatCI(resampled.specific[s.route.join(">")], ciType)}</span>}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import type { CellMatrix, VarName } from "../masem/types";
+import { cellHeterogeneity, type CellHeterogeneity } from "../masem/heterogeneity";
+
+function fmt(x: number, digits: number): string {
+  return Number.isFinite(x) ? x.toFixed(digits) : "—";
+}
+
+// White (I² = 0) to rose (I² = 100%).
+function heat(I2: number): string {
+  if (!Number.isFinite(I2)) return "rgb(241 245 249)";
+  const t = Math.min(1, Math.max(0, I2));
+  return `rgb(${Math.round(255 - 30 * t)} ${Math.round(255 - 190 * t)} ${Math.round(255 - 160 * t)})`;
+}
+
+/** I² heatmap and per-pair heterogeneity (k, Q, τ², I², 80% credibility interval) of the pooled correlations. */
+export default function HeterogeneityPanel({ vars, cellM }: { vars: VarName[]; cellM: CellMatrix }) {
+  const rows: { a: VarName; b: VarName; r: number; h: CellHeterogeneity }[] = [];
+  vars.forEach((a, i) =>
+    vars.slice(0, i).forEach((b) => {
+      const cell = cellM[a]?.[b];
+      const h = cell ? cellHeterogeneity(cell) : null;
+      if (cell && h) rows.push({ a, b, r: cell.r, h });
+    })
+  );
+  if (!rows.length) return null;
+  const lookup = (a: VarName, b: VarName) => rows.find((x) => (x.a === a && x.b === b) || (x.a === b && x.b === a));
+
+  return (
+    <div className="mt-4 bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Heterogeneity</h3>
+        <p className="text-xs text-slate-500">
+          I² is the share of variance across studies beyond sampling error. The 80% credibility interval (r ± 1.28τ) is where most population correlations lie.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-6 p-5">
+        <table className="text-xs border-collapse self-start">
+          <tbody>
+            {vars.map((a, i) => (
+              <tr key={a}>
+                <td className="pr-2 text-right font-semibold text-slate-600">{a}</td>
+                {vars.slice(0, i + 1).map((b) => {
+                  const x = a === b ? undefined : lookup(a, b);
+                  return (
+                    <td
+                      key={b}
+                      className="w-14 h-10 text-center font-mono border border-white"
+                      style={{ background: a === b ? "transparent" : heat(x ? x.h.I2 : Number.NaN) }}
+                      title={x ? `${a} – ${b}: I² = ${fmt(x.h.I2 * 100, 0)}%` : undefined}
+                    >
+                      {a === b ? "" : x ? `${fmt(x.h.I2 * 100, 0)}%` : "—"}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td />
+              {vars.map((b) => (
+                <td key={b} className="pt-1 text-center text-[10px] text-slate-500 max-w-14 truncate">{b}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="flex-1 overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+              <tr>
+                <th className="px-3 py-2">Pair</th>
+                <th className="px-3 py-2 text-right">r</th>
+                <th className="px-3 py-2 text-right">k</th>
+                <th className="px-3 py-2 text-right">Q (p)</th>
+                <th className="px-3 py-2 text-right">τ²</th>
+                <th className="px-3 py-2 text-right">I²</th>
+                <th className="px-3 py-2 text-right">80% CrI</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(({ a, b, r, h }) => (
+                <tr key={`${a}|${b}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-3 py-1.5 text-slate-700">{b} – {a}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{fmt(r, 3)}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{fmt(h.k, 0)}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">
+                    {fmt(h.Q, 2)}
+                    {Number.isFinite(h.pQ) && <span className="text-slate-400"> ({h.pQ < 0.001 ? "< .001" : h.pQ.toFixed(3)})</span>}
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-mono">{fmt(h.tau2, 4)}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{Number.isFinite(h.I2) ? `${(h.I2 * 100).toFixed(1)}%` : "—"}</td>
+                  <td className="px-3 py-1.5 text-right font-mono text-xs text-slate-500">
+                    {Number.isFinite(h.tau2) ? `[${h.credibility[0].toFixed(3)}, ${h.credibility[1].toFixed(3)}]` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
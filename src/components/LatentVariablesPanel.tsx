@@ -0,0 +1,55 @@
+import type { Latent, VarName } from "../masem/types";
+import NameInput from "./NameInput";
+
+/**
+ * Latent variables of the model, each measured by observed indicators (step 2). A latent
+ * variable is a node of the diagram like any other; its loadings are drawn automatically.
+ */
+export default function LatentVariablesPanel({
+  vars,
+  latents,
+  onAdd,
+  onRename,
+  onRemove,
+  onToggleIndicator,
+}: {
+  vars: VarName[];
+  latents: Latent[];
+  onAdd: () => void;
+  onRename: (from: VarName, to: VarName) => void;
+  onRemove: (name: VarName) => void;
+  onToggleIndicator: (name: VarName, indicator: VarName) => void;
+}) {
+  const owner = new Map(latents.flatMap((l) => l.indicators.map((x) => [x, l.name] as const)));
+  return (
+    <div className="mt-4 bg-white border border-slate-200 rounded-xl overflow-hidden">
+      <div className="px-4 py-2 border-b border-slate-100 text-xs text-slate-500 flex items-center gap-2">
+        <span>
+          <span className="font-bold uppercase">Latent variables</span> · Each is measured by two or more indicators and has unit variance, so its loadings are standardized (ML and WLS only). Connect
+          paths to the latent variable, not to its indicators.
+        </span>
+        <button onClick={onAdd} className="ml-auto shrink-0 text-indigo-600 font-semibold border border-indigo-200 rounded-lg px-2 py-0.5 hover:bg-indigo-50">+ Latent variable</button>
+      </div>
+      {latents.length > 0 && (
+        <div className="divide-y divide-slate-100">
+          {latents.map((l) => (
+            <div key={l.name} className="flex flex-wrap items-center gap-3 px-4 py-1.5 text-xs">
+              <NameInput value={l.name} onCommit={(name) => onRename(l.name, name)} className="w-28 border border-slate-200 rounded-lg px-2 py-0.5 font-semibold text-indigo-700" />
+              <span className="text-slate-400">measured by</span>
+              {vars.map((v) => {
+                const other = owner.get(v) !== undefined && owner.get(v) !== l.name;
+                return (
+                  <label key={v} className={`flex items-center gap-1 ${other ? "text-slate-300" : "text-slate-700"}`} title={other ? `Indicator of ${owner.get(v)}` : undefined}>
+                    <input type="checkbox" checked={l.indicators.includes(v)} disabled={other} onChange={() => onToggleIndicator(l.name, v)} />
+                    {v}
+                  </label>
+                );
+              })}
+              <button onClick={() => onRemove(l.name)} className="ml-auto text-slate-400 hover:text-rose-600 px-1" title="Delete latent variable">×</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
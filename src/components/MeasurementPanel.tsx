@@ -0,0 +1,67 @@
+import type { Measurement } from "../masem/types";
+import { getSignificanceStar } from "../masem/estimation";
+
+function pText(p: number): string {
+  return p < 0.001 ? "< .001" : p.toFixed(3);
+}
+
+/** Standardized loadings, AVE and composite reliability of every latent variable. */
+export default function MeasurementPanel({ items }: { items: Measurement[] }) {
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Measurement Model</h3>
+        <p className="text-xs text-slate-500">
+          Loadings are standardized (latent variances fixed at 1). AVE is the mean squared loading; CR = (Σλ)² / ((Σλ)² + Σ(1 − λ²)). Common thresholds: loadings ≥ .70, AVE ≥ .50, CR ≥ .70.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+            <tr>
+              <th className="px-5 py-2">Latent → indicator</th>
+              <th className="px-5 py-2 text-right">Std. λ</th>
+              <th className="px-5 py-2 text-right">S.E.</th>
+              <th className="px-5 py-2 text-right">z-value</th>
+              <th className="px-5 py-2 text-right">p-value</th>
+              <th className="px-5 py-2 text-right">λ²</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {items.map((m) => [
+              ...m.loadings.map((l) => (
+                <tr key={`${m.latent}|${l.indicator}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-5 py-2 font-medium text-slate-700">
+                    <span className="text-indigo-600">{m.latent}</span> <span className="text-slate-300">→</span> <span className="text-slate-500">{l.indicator}</span>
+                  </td>
+                  <td className={`px-5 py-2 text-right font-mono font-bold ${Math.abs(l.lambda) < 0.7 ? "text-amber-600" : ""}`}>
+                    {l.lambda.toFixed(3)}
+                    {getSignificanceStar(l.p)}
+                  </td>
+                  {l.fixed ? (
+                    <td colSpan={3} className="px-5 py-2 text-right text-xs text-slate-400 italic">fixed</td>
+                  ) : (
+                    <>
+                      <td className="px-5 py-2 text-right font-mono text-slate-500">{l.se.toFixed(3)}</td>
+                      <td className="px-5 py-2 text-right font-mono text-slate-500">{l.z.toFixed(2)}</td>
+                      <td className="px-5 py-2 text-right font-mono text-slate-500">{pText(l.p)}</td>
+                    </>
+                  )}
+                  <td className="px-5 py-2 text-right font-mono text-xs text-slate-400">{(l.lambda ** 2).toFixed(3)}</td>
+                </tr>
+              )),
+              <tr key={m.latent} className="bg-slate-50/60 text-xs">
+                <td colSpan={6} className="px-5 py-2 text-slate-600">
+                  <span className="font-semibold">{m.latent}</span>: AVE ={" "}
+                  <span className={`font-mono font-bold ${m.ave >= 0.5 ? "text-emerald-600" : "text-amber-600"}`}>{m.ave.toFixed(3)}</span>, CR ={" "}
+                  <span className={`font-mono font-bold ${m.cr >= 0.7 ? "text-emerald-600" : "text-amber-600"}`}>{m.cr.toFixed(3)}</span>, √AVE ={" "}
+                  <span className="font-mono">{Math.sqrt(Math.max(0, m.ave)).toFixed(3)}</span>
+                </td>
+              </tr>,
+            ])}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { nestedTests, type ComparedModel } from "../masem/compare";
+
+function fmt(x: number | undefined, digits: number): string {
+  return x !== undefined && Number.isFinite(x) ? x.toFixed(digits) : "—";
+}
+
+/** Fit of every saved model on the same matrix, plus chi-square difference tests for nested pairs. */
+export default function ModelComparisonPanel({ models }: { models: ComparedModel[] }) {
+  const tests = nestedTests(models);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Model Comparison</h3>
+        <p className="text-xs text-slate-500">All models fitted to the same matrix with the same estimator. Smaller AIC/BIC is better.</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+            <tr>
+              <th className="px-4 py-3">Model</th>
+              <th className="px-4 py-3 text-right">χ²</th>
+              <th className="px-4 py-3 text-right">df</th>
+              <th className="px-4 py-3 text-right">CFI</th>
+              <th className="px-4 py-3 text-right">RMSEA</th>
+              <th className="px-4 py-3 text-right">SRMR</th>
+              <th className="px-4 py-3 text-right">AIC</th>
+              <th className="px-4 py-3 text-right">BIC</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {models.map((m) => (
+              <tr key={m.name} className="hover:bg-slate-50 transition-colors">
+                <td className="px-4 py-2 font-medium text-slate-700">
+                  {m.name} <span className="text-xs text-slate-400">({m.edges.length} edges)</span>
+                </td>
+                {m.fit ? (
+                  <>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(m.fit.chi2 ?? 0, 2)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{m.fit.df}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(m.fit.cfi, 3)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(m.fit.rmsea, 3)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(m.fit.SRMR, 3)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(m.fit.aic, 2)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(m.fit.bic, 2)}</td>
+                  </>
+                ) : (
+                  <td colSpan={7} className="px-4 py-2 text-xs text-rose-600">{m.error}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t border-slate-200">
+        <div className="px-5 py-3 text-xs font-bold text-slate-500 uppercase">Nested Models (χ² difference tests)</div>
+        {tests.length === 0 ? (
+          <div className="px-5 pb-4 text-xs text-slate-400 italic">
+            No nested pairs. A model is nested in another when it only adds restrictions (dropped or fixed edges, equality labels) and the same variables are endogenous.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+                <tr>
+                  <th className="px-4 py-2">Restricted vs. general</th>
+                  <th className="px-4 py-2 text-right">Δχ²</th>
+                  <th className="px-4 py-2 text-right">Δdf</th>
+                  <th className="px-4 py-2 text-right">p</th>
+                  <th className="px-4 py-2 text-right">ΔCFI</th>
+                  <th className="px-4 py-2 text-right">ΔRMSEA</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {tests.map((t) => (
+                  <tr key={`${t.restricted}|${t.general}`} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-2 text-slate-700">
+                      {t.restricted} <span className="text-slate-300">⊂</span> {t.general}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(t.dChi2, 2)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{t.dDf}</td>
+                    <td className="px-4 py-2 text-right font-mono">
+                      {Number.isFinite(t.p) ? (
+                        <span className={t.p < 0.05 ? "text-rose-600 font-bold" : "text-emerald-600 font-bold"}>{t.p < 0.001 ? "< .001" : t.p.toFixed(3)}</span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(t.dCFI, 3)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(t.dRMSEA, 3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="px-5 py-2 text-[11px] text-slate-400">A significant Δχ² means the restrictions (dropped edges) worsen fit.</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
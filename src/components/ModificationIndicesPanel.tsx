@@ -0,0 +1,79 @@
+import { useState } from "react";
+import type { Edge } from "../masem/types";
+import type { ModIndex } from "../masem/ml";
+
+type SortKey = "mi" | "epc" | "name";
+
+/** Sortable modification indices; "Add" hands the edge back to the diagram. */
+export default function ModificationIndicesPanel({ items, onAdd }: { items: ModIndex[]; onAdd: (e: Edge) => void }) {
+  const [sortKey, setSortKey] = useState<SortKey>("mi");
+  const [desc, setDesc] = useState(true);
+  const [minMI, setMinMI] = useState<number>(3.84);
+
+  const name = (m: ModIndex) => `${m.from} ${m.kind === "cov" ? "↔" : "→"} ${m.to}`;
+  const value = (m: ModIndex) => (sortKey === "mi" ? m.mi : sortKey === "epc" ? Math.abs(m.epc) : 0);
+  const rows = items
+    .filter((m) => !(m.mi < minMI))
+    .sort((a, b) => {
+      const d = sortKey === "name" ? name(a).localeCompare(name(b)) : (value(a) || 0) - (value(b) || 0);
+      return desc ? -d : d;
+    });
+
+  const header = (key: SortKey, label: string, align = "text-right") => (
+    <th
+      className={`px-4 py-2 ${align} cursor-pointer select-none hover:text-indigo-600`}
+      onClick={() => (sortKey === key ? setDesc(!desc) : (setSortKey(key), setDesc(key !== "name")))}
+    >
+      {label}
+      {sortKey === key ? (desc ? " ▼" : " ▲") : ""}
+    </th>
+  );
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200 flex items-center gap-3">
+        <div>
+          <h3 className="font-bold text-slate-700">Modification Indices</h3>
+          <p className="text-xs text-slate-500">Expected χ² drop (1 df) and standardized parameter change if the edge were freed (ML information).</p>
+        </div>
+        <label className="ml-auto text-xs text-slate-500 flex items-center gap-1">
+          MI ≥
+          <input type="number" step={0.5} min={0} value={minMI} onChange={(e) => setMinMI(Number(e.target.value))} className="w-16 border border-slate-200 rounded-lg px-2 py-1 font-mono" />
+        </label>
+      </div>
+      {rows.length === 0 ? (
+        <div className="p-5 text-xs text-slate-400 italic">No omitted edge reaches the threshold.</div>
+      ) : (
+        <div className="overflow-x-auto max-h-80">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-white text-xs uppercase text-slate-500 font-semibold sticky top-0">
+              <tr>
+                {header("name", "Omitted edge", "text-left")}
+                {header("mi", "MI")}
+                {header("epc", "EPC")}
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map((m) => (
+                <tr key={`${m.kind}:${m.from}:${m.to}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-4 py-2 text-slate-700">
+                    {name(m)}
+                    {m.kind === "cov" && <span className="ml-2 text-[10px] text-slate-400 uppercase">resid. cov</span>}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-mono ${m.mi >= 3.84 ? "font-bold text-amber-600" : "text-slate-500"}`}>{Number.isFinite(m.mi) ? m.mi.toFixed(2) : "—"}</td>
+                  <td className="px-4 py-2 text-right font-mono text-slate-500">{Number.isFinite(m.epc) ? m.epc.toFixed(3) : "—"}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button onClick={() => onAdd({ from: m.from, to: m.to, kind: m.kind })} className="text-xs text-indigo-600 font-semibold border border-indigo-200 rounded-lg px-2 py-0.5 hover:bg-indigo-50">
+                      Add {m.kind === "cov" ? "covariance" : "path"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
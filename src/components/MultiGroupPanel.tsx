@@ -0,0 +1,226 @@
+import { useState } from "react";
+import type { Coef, Edge, VarName } from "../masem/types";
+import { carryOverCellMatrix, makeEmptyCellMatrix, parseCombinedMatrixText } from "../masem/cells";
+import { getSignificanceStar, pathEdges } from "../masem/estimation";
+import { estimateMultiGroup, pathKey, type GroupData, type MultiGroupFit, type MultiGroupResult } from "../masem/multigroup";
+
+type CustomGroup = { name: string; text: string };
+
+function fmt(x: number | undefined, digits: number): string {
+  return x !== undefined && Number.isFinite(x) ? x.toFixed(digits) : "—";
+}
+
+function pText(p: number) {
+  if (!Number.isFinite(p)) return "—";
+  return <span className={p < 0.05 ? "text-rose-600 font-bold" : "text-emerald-600 font-bold"}>{p < 0.001 ? "< .001" : p.toFixed(3)}</span>;
+}
+
+// A pasted matrix (same text format as step 1) restricted to the model's variables.
+function customGroupData(vars: VarName[], g: CustomGroup): GroupData {
+  const name = g.name.trim();
+  if (!name) throw new Error("Every custom group needs a name.");
+  const parsed = parseCombinedMatrixText(g.text);
+  const missing = vars.filter((v) => !parsed.vars.includes(v));
+  if (missing.length) throw new Error(`${name}: missing variable${missing.length > 1 ? "s" : ""} ${missing.join(", ")}.`);
+  return { name, cellM: carryOverCellMatrix(parsed.vars, parsed.cellMatrix, vars, makeEmptyCellMatrix(vars)) };
+}
+
+/**
+ * Fits the current path model to several preset or pasted matrices at once (ML), with chosen
+ * paths held equal across groups, and tests those invariance constraints.
+ */
+export default function MultiGroupPanel({
+  vars,
+  edges,
+  nMethod,
+  presets,
+}: {
+  vars: VarName[];
+  edges: Edge[];
+  nMethod: "harmonic" | "min";
+  presets: GroupData[];
+}) {
+  const paths = pathEdges(edges);
+  const [selected, setSelected] = useState<string[]>(() => presets.filter((g) => g.name !== "All").map((g) => g.name));
+  const [custom, setCustom] = useState<CustomGroup[]>([]);
+  const [invariant, setInvariant] = useState<string[]>([]);
+  const [result, setResult] = useState<MultiGroupResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (list: string[], key: string) => (list.includes(key) ? list.filter((k) => k !== key) : [...list, key]);
+
+  const run = () => {
+    try {
+      const groups = [...presets.filter((g) => selected.includes(g.name)), ...custom.map((g) => customGroupData(vars, g))];
+      setResult(estimateMultiGroup(vars, groups, edges, invariant, nMethod));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const fitRow = (name: string, f: MultiGroupFit) => (
+    <tr key={name} className="hover:bg-slate-50 transition-colors">
+      <td className="px-4 py-2 font-medium text-slate-700">{name}</td>
+      <td className="px-4 py-2 text-right font-mono">{fmt(f.chi2, 2)}</td>
+      <td className="px-4 py-2 text-right font-mono">{f.df}</td>
+      <td className="px-4 py-2 text-right font-mono">{pText(f.p)}</td>
+      <td className="px-4 py-2 text-right font-mono">{fmt(f.cfi, 3)}</td>
+      <td className="px-4 py-2 text-right font-mono">{fmt(f.tli, 3)}</td>
+      <td className="px-4 py-2 text-right font-mono">{fmt(f.rmsea, 3)}</td>
+    </tr>
+  );
+
+  const cell = (c: Coef | undefined) =>
+    c ? (
+      <>
+        <span className="font-bold">{c.beta.toFixed(3)}{getSignificanceStar(c.p)}</span>{" "}
+        <span className="text-xs text-slate-400">{c.fixed ? "fixed" : `(${c.se.toFixed(3)})`}</span>
+      </>
+    ) : (
+      "—"
+    );
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Multi-Group Analysis</h3>
+        <p className="text-xs text-slate-500">The same model fitted to each group's matrix by ML. Paths marked invariant are held equal across groups.</p>
+      </div>
+
+      <div className="p-5 space-y-4 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs font-bold text-slate-500 uppercase">Groups</span>
+          {presets.map((g) => (
+            <label key={g.name} className="flex items-center gap-1 text-slate-700">
+              <input type="checkbox" checked={selected.includes(g.name)} onChange={() => setSelected(toggle(selected, g.name))} />
+              {g.name}
+            </label>
+          ))}
+          <button onClick={() => setCustom([...custom, { name: `Group ${custom.length + 1}`, text: "" }])} className="text-xs text-indigo-600 font-semibold border border-indigo-200 rounded-lg px-2 py-0.5 hover:bg-indigo-50">
+            + Custom matrix
+          </button>
+        </div>
+
+        {custom.map((g, i) => (
+          <div key={i} className="border border-slate-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input value={g.name} onChange={(e) => setCustom(custom.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)))} className="border border-slate-200 rounded-lg px-2 py-1 text-xs w-40" />
+              <button onClick={() => setCustom(custom.filter((_, j) => j !== i))} className="ml-auto text-slate-400 hover:text-rose-600 px-1" title="Remove group">×</button>
+            </div>
+            <textarea
+              value={g.text}
+              onChange={(e) => setCustom(custom.map((x, j) => (j === i ? { ...x, text: e.target.value } : x)))}
+              rows={4}
+              spellCheck={false}
+              placeholder={`,${vars.join(",")}\n${vars[0]},1\n${vars[1] ?? "B"},0.52|400,1\n...`}
+              className="w-full border border-slate-200 rounded-lg px-3 py-2 font-mono text-xs"
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs font-bold text-slate-500 uppercase">Invariant paths</span>
+          {paths.map((e) => (
+            <label key={pathKey(e)} className="flex items-center gap-1 text-slate-700">
+              <input type="checkbox" checked={invariant.includes(pathKey(e))} onChange={() => setInvariant(toggle(invariant, pathKey(e)))} />
+              {e.from} → {e.to}
+            </label>
+          ))}
+          <button onClick={run} className="ml-auto text-xs bg-indigo-600 text-white px-3 py-1 rounded-lg font-bold hover:bg-indigo-700">Fit groups</button>
+        </div>
+
+        {error && <div className="text-xs text-rose-600">{error}</div>}
+      </div>
+
+      {result && (
+        <>
+          <div className="overflow-x-auto border-t border-slate-200">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+                <tr>
+                  <th className="px-4 py-2">Path</th>
+                  {result.groups.map((g) => (
+                    <th key={g.name} className="px-4 py-2 text-right">
+                      {g.name} <span className="normal-case font-normal text-slate-400">(N = {g.N.toFixed(0)})</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.groups[0].coeffs.map((c, i) => (
+                  <tr key={i} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-2 text-slate-700">
+                      {c.from} {c.kind === "cov" ? "↔" : "→"} {c.to}
+                      {c.kind === "path" && result.invariant.includes(pathKey(c)) && <span className="ml-2 text-[10px] font-bold text-indigo-500 uppercase">invariant</span>}
+                    </td>
+                    {result.groups.map((g) => (
+                      <td key={g.name} className="px-4 py-2 text-right font-mono">
+                        {cell(g.coeffs.find((x) => x.kind === c.kind && x.from === c.from && x.to === c.to))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="text-xs text-slate-500">
+                  <td className="px-4 py-2">χ² contribution / SRMR</td>
+                  {result.groups.map((g) => (
+                    <td key={g.name} className="px-4 py-2 text-right font-mono">
+                      {fmt(g.chi2, 2)} / {fmt(g.SRMR, 3)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-x-auto border-t border-slate-200">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+                <tr>
+                  <th className="px-4 py-2">Pooled fit</th>
+                  <th className="px-4 py-2 text-right">χ²</th>
+                  <th className="px-4 py-2 text-right">df</th>
+                  <th className="px-4 py-2 text-right">p</th>
+                  <th className="px-4 py-2 text-right">CFI</th>
+                  <th className="px-4 py-2 text-right">TLI</th>
+                  <th className="px-4 py-2 text-right">RMSEA</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.configural && fitRow("Configural (no cross-group constraints)", result.configural)}
+                {fitRow(result.configural ? "Constrained" : "All groups", result.fit)}
+              </tbody>
+            </table>
+          </div>
+
+          {result.tests.length > 0 && (
+            <div className="overflow-x-auto border-t border-slate-200">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+                  <tr>
+                    <th className="px-4 py-2">Held equal across groups</th>
+                    <th className="px-4 py-2 text-right">Δχ²</th>
+                    <th className="px-4 py-2 text-right">Δdf</th>
+                    <th className="px-4 py-2 text-right">p</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {result.tests.map((t) => (
+                    <tr key={t.constraint} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-4 py-2 text-slate-700">{t.constraint.replace("->", " → ")}</td>
+                      <td className="px-4 py-2 text-right font-mono">{fmt(t.dChi2, 2)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{t.dDf}</td>
+                      <td className="px-4 py-2 text-right font-mono">{pText(t.p)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="px-5 py-2 text-[11px] text-slate-400">Each test compares against the configural model. A significant Δχ² means the path differs across groups (a moderation effect).</div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
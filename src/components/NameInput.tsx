@@ -0,0 +1,19 @@
+import { useState } from "react";
+
+/** Text input for a name that commits on blur or Enter, so renames run once rather than per keystroke. */
+export default function NameInput({ value, onCommit, className }: { value: string; onCommit: (name: string) => void; className: string }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft.trim() !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+  return (
+    <input
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+      className={className}
+    />
+  );
+}
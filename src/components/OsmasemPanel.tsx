@@ -0,0 +1,136 @@
+import { useState } from "react";
+import type { Edge, VarName } from "../masem/types";
+import { getSignificanceStar } from "../masem/estimation";
+import { estimateOSMASEM, type ModeratedEstimate, type OsmasemResult } from "../masem/osmasem";
+import type { Study } from "../masem/tssem";
+
+function fmt(x: number | undefined, digits: number): string {
+  return x !== undefined && Number.isFinite(x) ? x.toFixed(digits) : "—";
+}
+
+function pText(p: number): string {
+  return p < 0.001 ? "< .001" : p.toFixed(3);
+}
+
+function EstimateCells({ e }: { e: ModeratedEstimate | null }) {
+  if (!e) return <td colSpan={2} className="px-4 py-2 text-right text-xs text-slate-300">—</td>;
+  return (
+    <>
+      <td className="px-4 py-2 text-right font-mono font-bold">{e.est.toFixed(4)}{getSignificanceStar(e.p)}</td>
+      <td className="px-4 py-2 text-right font-mono text-xs text-slate-400">({e.se.toFixed(4)}) p {e.p < 0.001 ? "< .001" : `= ${e.p.toFixed(3)}`}</td>
+    </>
+  );
+}
+
+/**
+ * One-stage MASEM: the study matrices from step 1 are refitted with every path linear in a
+ * continuous moderator taken from the study headers (e.g. `# Smith2019; n=250; year=2019`).
+ */
+export default function OsmasemPanel({ vars, edges, studies }: { vars: VarName[]; edges: Edge[]; studies: Study[] }) {
+  const moderators = [...new Set(studies.flatMap((s) => Object.keys(s.moderators)))];
+  const [moderator, setModerator] = useState<string>(moderators[0] ?? "");
+  const [result, setResult] = useState<OsmasemResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = () => {
+    try {
+      setResult(estimateOSMASEM(vars, studies, edges, moderator));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200 flex flex-wrap items-center gap-3">
+        <div>
+          <h3 className="font-bold text-slate-700">Continuous Moderator (OSMASEM)</h3>
+          <p className="text-xs text-slate-500">Paths fitted as β₀ + β₁·(moderator − mean) directly to the study matrices, with random effects on the correlations.</p>
+        </div>
+        <div className="ml-auto flex items-center gap-2 text-xs">
+          <select value={moderator} onChange={(e) => setModerator(e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1 bg-white">
+            {moderators.map((m) => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <button onClick={run} disabled={!moderator} className="bg-indigo-600 text-white px-3 py-1 rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-40">Fit</button>
+        </div>
+      </div>
+
+      {moderators.length === 0 && (
+        <div className="p-5 text-xs text-slate-400 italic">
+          No study reports a moderator. Add numeric values to the study headers in step 1, e.g. <span className="font-mono not-italic"># Smith2019; n=250; year=2019</span>.
+        </div>
+      )}
+      {error && <div className="px-5 py-3 text-xs text-rose-600">{error}</div>}
+
+      {result && (
+        <>
+          <div className="px-5 py-2 text-xs text-slate-500 border-b border-slate-100">
+            {result.studyCount} studies; intercepts are the paths at {result.moderator} = {fmt(result.center, 2)}, slopes the change per unit of {result.moderator}.
+            {result.skipped.length > 0 && <span className="text-amber-600"> Skipped (no {result.moderator}): {result.skipped.join(", ")}.</span>}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+                <tr>
+                  <th className="px-4 py-2">Path</th>
+                  <th className="px-4 py-2 text-right" colSpan={2}>Intercept β₀</th>
+                  <th className="px-4 py-2 text-right" colSpan={2}>Slope β₁</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.coeffs.map((c, i) => (
+                  <tr key={i} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-2 text-slate-700">
+                      {c.from} {c.kind === "cov" ? "↔" : "→"} {c.to}
+                    </td>
+                    <EstimateCells e={c.intercept} />
+                    <EstimateCells e={c.slope} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-5 py-3 border-t border-slate-100 text-sm text-slate-700 flex flex-wrap gap-x-6 gap-y-1">
+            <span>
+              All slopes = 0: χ²({result.slopeTest.df}) = <span className="font-mono">{fmt(result.slopeTest.chi2, 2)}</span>, p ={" "}
+              <span className={`font-mono font-bold ${result.slopeTest.p < 0.05 ? "text-rose-600" : "text-emerald-600"}`}>{pText(result.slopeTest.p)}</span>
+            </span>
+            <span>
+              Residual Q({result.dfQ}) = <span className="font-mono">{fmt(result.Q, 2)}</span>, p = <span className="font-mono">{Number.isFinite(result.pQ) ? pText(result.pQ) : "—"}</span>
+            </span>
+            <span>
+              R² (heterogeneity explained) = <span className="font-mono">{fmt(result.r2, 3)}</span>
+            </span>
+          </div>
+
+          <div className="border-t border-slate-200 overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+                <tr>
+                  <th className="px-4 py-2">Correlation</th>
+                  <th className="px-4 py-2 text-right">k</th>
+                  <th className="px-4 py-2 text-right">τ² without moderator</th>
+                  <th className="px-4 py-2 text-right">τ² with moderator</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.heterogeneity.map((h) => (
+                  <tr key={h.pair.join("|")} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-2 text-slate-700">{h.pair[1]} – {h.pair[0]}</td>
+                    <td className="px-4 py-2 text-right font-mono">{h.k}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(h.tau2Base, 4)}</td>
+                    <td className="px-4 py-2 text-right font-mono">{fmt(h.tau2, 4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
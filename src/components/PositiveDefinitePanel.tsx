@@ -0,0 +1,109 @@
+import { useMemo, useState } from "react";
+import type { CellMatrix, VarName } from "../masem/types";
+import { buildRMatrix, validateCellMatrix } from "../masem/cells";
+import { eigenDiagnostics, MIN_EIGENVALUE, repairCellMatrix, type Repair, type RepairMethod } from "../masem/nearpd";
+
+const METHOD_LABEL: Record<RepairMethod, string> = {
+  higham: "Higham nearest correlation",
+  smooth: "Eigenvalue smoothing",
+};
+
+function diffText(repair: Repair): string {
+  const rows = repair.changes.map((c) => `${c.a},${c.b},${c.before},${c.after.toFixed(4)},${(c.after - c.before).toFixed(4)}`);
+  return [`# ${METHOD_LABEL[repair.method]}`, "var1,var2,r_original,r_repaired,change", ...rows].join("\n");
+}
+
+/**
+ * Eigenvalues of the pooled correlation matrix (step 1). A matrix that is not positive definite
+ * can be repaired in place; the table of changed correlations is kept for reporting.
+ */
+export default function PositiveDefinitePanel({ vars, cellM, onApply }: { vars: VarName[]; cellM: CellMatrix; onApply: (next: CellMatrix) => void }) {
+  const [draft, setDraft] = useState<{ repair: Repair; from: CellMatrix } | null>(null);
+  const [done, setDone] = useState<Repair | null>(null);
+  const diag = useMemo(() => (validateCellMatrix(vars, cellM).ok ? eigenDiagnostics(buildRMatrix(vars, cellM)) : null), [vars, cellM]);
+  if (!diag) return null;
+
+  // A preview belongs to the matrix it was computed from, the applied record to the matrix it produced.
+  const preview = draft && draft.from === cellM ? draft.repair : null;
+  const applied = done && done.cellM === cellM ? done : null;
+  const shown = preview ?? applied;
+  const apply = () => {
+    if (!preview) return;
+    onApply(preview.cellM);
+    setDone(preview);
+    setDraft(null);
+  };
+
+  return (
+    <div className="mt-4 bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Positive Definiteness</h3>
+        <p className="text-xs text-slate-500">
+          Matrices pooled pair by pair can have negative eigenvalues, which ML and WLS cannot fit. Higham's method finds the closest correlation matrix with smallest eigenvalue {MIN_EIGENVALUE}; eigenvalue smoothing raises the offending eigenvalues to {MIN_EIGENVALUE} and rescales. Sample sizes are kept.
+        </p>
+      </div>
+      <div className="px-5 py-3 flex flex-wrap items-center gap-x-6 gap-y-2 text-xs">
+        <span className={`font-bold ${diag.positiveDefinite ? "text-emerald-600" : "text-rose-600"}`}>{diag.positiveDefinite ? "Positive definite" : "Not positive definite"}</span>
+        <span className="text-slate-500">
+          Eigenvalues:{" "}
+          {diag.values.map((x, k) => (
+            <span key={k} className={`font-mono mr-2 ${x <= 1e-10 ? "text-rose-600 font-bold" : "text-slate-700"}`}>{x.toFixed(4)}</span>
+          ))}
+        </span>
+        {diag.positiveDefinite && <span className="text-slate-500">Condition number <span className="font-mono text-slate-700">{diag.condition.toFixed(1)}</span></span>}
+      </div>
+      {!diag.positiveDefinite && (
+        <div className="px-5 pb-3 flex items-center gap-2 text-xs">
+          <span className="text-slate-500">Repair by</span>
+          {(Object.keys(METHOD_LABEL) as RepairMethod[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setDraft({ repair: repairCellMatrix(vars, cellM, m), from: cellM })}
+              className={`px-2 py-1 rounded-lg border font-semibold ${preview?.method === m ? "bg-indigo-50 border-indigo-300 text-indigo-700" : "border-slate-200 text-slate-600 hover:bg-slate-50"}`}
+            >
+              {METHOD_LABEL[m]}
+            </button>
+          ))}
+        </div>
+      )}
+      {shown && (
+        <div className="border-t border-slate-100">
+          <div className="px-5 py-2 text-xs text-slate-600 flex items-center gap-3">
+            <span>
+              {preview ? "Preview" : "Applied"}: {METHOD_LABEL[shown.method]}
+              {shown.method === "higham" && ` (${shown.iterations} iterations)`}, {shown.changes.length} correlation{shown.changes.length === 1 ? "" : "s"} changed; smallest eigenvalue{" "}
+              <span className="font-mono">{shown.before.values[shown.before.values.length - 1].toFixed(4)}</span> →{" "}
+              <span className="font-mono">{shown.after.values[shown.after.values.length - 1].toFixed(4)}</span>.
+            </span>
+            <span className="ml-auto flex gap-2">
+              <button onClick={() => navigator.clipboard?.writeText(diffText(shown))} className="text-slate-500 border border-slate-200 rounded-lg px-2 py-0.5 hover:bg-slate-50">Copy CSV</button>
+              {preview && <button onClick={apply} className="bg-slate-800 text-white rounded-lg px-3 py-0.5 font-semibold">Apply repair</button>}
+            </span>
+          </div>
+          <div className="overflow-auto max-h-[220px]">
+            <table className="w-full text-xs">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="px-5 py-1 text-left">Pair</th>
+                  <th className="px-5 py-1 text-right">Original r</th>
+                  <th className="px-5 py-1 text-right">Repaired r</th>
+                  <th className="px-5 py-1 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-mono">
+                {shown.changes.map((c) => (
+                  <tr key={`${c.a}|${c.b}`}>
+                    <td className="px-5 py-1 font-sans">{c.a} – {c.b}</td>
+                    <td className="px-5 py-1 text-right">{c.before.toFixed(4)}</td>
+                    <td className="px-5 py-1 text-right">{c.after.toFixed(4)}</td>
+                    <td className="px-5 py-1 text-right text-slate-500">{`${c.after - c.before >= 0 ? "+" : ""}${(c.after - c.before).toFixed(4)}`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import type { Coef, EstResult } from "../masem/types";
+import { getSignificanceStar } from "../masem/estimation";
+
+function fmt(x: number | undefined, digits: number): string {
+  return x !== undefined && Number.isFinite(x) ? x.toFixed(digits) : "—";
+}
+
+function estimate(c: Coef | undefined) {
+  if (!c) return <span className="text-slate-300">—</span>;
+  return (
+    <>
+      <span className="font-bold">{c.beta.toFixed(3)}{getSignificanceStar(c.p)}</span>{" "}
+      <span className="text-xs text-slate-400">{c.fixed ? "fixed" : `(${c.se.toFixed(3)})`}</span>
+    </>
+  );
+}
+
+/** Estimates corrected for measurement error next to those from the observed correlations. */
+export default function ReliabilityComparisonPanel({
+  corrected,
+  uncorrected,
+  error,
+}: {
+  corrected: EstResult;
+  uncorrected: EstResult | null;
+  error: string | null;
+}) {
+  const mode = corrected.reliability?.mode === "disattenuate" ? "disattenuated correlations" : "single-indicator latent true scores";
+  const find = (c: Coef) => uncorrected?.coeffs.find((u) => u.kind === c.kind && u.from === c.from && u.to === c.to);
+  const fitRows: [string, (r: EstResult) => string][] = [
+    ["χ² (df)", (r) => (r.fit.chi2 !== undefined ? `${r.fit.chi2.toFixed(2)} (${r.fit.df})` : `saturated (${r.fit.df})`)],
+    ["CFI", (r) => fmt(r.fit.cfi, 3)],
+    ["RMSEA", (r) => fmt(r.fit.rmsea, 3)],
+    ["SRMR", (r) => fmt(r.fit.SRMR, 3)],
+  ];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Correction for Attenuation</h3>
+        <p className="text-xs text-slate-500">
+          Corrected by {mode} for {corrected.reliability?.corrected.join(", ") || "no variable (all α = 1)"}; uncorrected estimates use the observed correlations with the same estimator.
+        </p>
+      </div>
+      {error && <div className="px-5 py-2 text-xs text-rose-600 border-b border-slate-100">Uncorrected model: {error}</div>}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-white text-xs uppercase text-slate-500 font-semibold">
+            <tr>
+              <th className="px-5 py-2">Path</th>
+              <th className="px-5 py-2 text-right">Uncorrected</th>
+              <th className="px-5 py-2 text-right">Corrected</th>
+              <th className="px-5 py-2 text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {corrected.coeffs.map((c, i) => {
+              const u = find(c);
+              return (
+                <tr key={i} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-5 py-2 text-slate-700">
+                    {c.from} {c.kind === "cov" ? "↔" : "→"} {c.to}
+                  </td>
+                  <td className="px-5 py-2 text-right font-mono">{estimate(u)}</td>
+                  <td className="px-5 py-2 text-right font-mono">{estimate(c)}</td>
+                  <td className="px-5 py-2 text-right font-mono text-xs text-slate-500">{u ? `${c.beta - u.beta >= 0 ? "+" : ""}${(c.beta - u.beta).toFixed(3)}` : "—"}</td>
+                </tr>
+              );
+            })}
+            {Object.keys(corrected.r2).map((v) => (
+              <tr key={`r2|${v}`} className="text-xs text-slate-500">
+                <td className="px-5 py-1.5">R² {v}</td>
+                <td className="px-5 py-1.5 text-right font-mono">{fmt(uncorrected?.r2[v], 3)}</td>
+                <td className="px-5 py-1.5 text-right font-mono">{fmt(corrected.r2[v], 3)}</td>
+                <td />
+              </tr>
+            ))}
+            {fitRows.map(([label, value]) => (
+              <tr key={label} className="text-xs text-slate-500">
+                <td className="px-5 py-1.5">{label}</td>
+                <td className="px-5 py-1.5 text-right font-mono">{uncorrected ? value(uncorrected) : "—"}</td>
+                <td className="px-5 py-1.5 text-right font-mono">{value(corrected)}</td>
+                <td />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
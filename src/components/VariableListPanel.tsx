@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Undo2, X } from "lucide-react";
+import type { VarName } from "../masem/types";
+import NameInput from "./NameInput";
+
+/**
+ * The observed variables of the analysis, in matrix order (step 0). Names are renamed in place;
+ * new names are pasted one per line or separated by commas. Correlations already entered for a
+ * variable follow it through renames and moves; renames and deletions can be undone.
+ */
+export default function VariableListPanel({
+  vars,
+  presetVars,
+  onAdd,
+  onRename,
+  onRemove,
+  onMove,
+  onClear,
+  undoLabel,
+  onUndo,
+}: {
+  vars: VarName[];
+  presetVars: VarName[];
+  onAdd: (names: VarName[]) => boolean;
+  onRename: (from: VarName, to: VarName) => void;
+  onRemove: (name: VarName) => void;
+  onMove: (name: VarName, delta: number) => void;
+  onClear: () => void;
+  undoLabel: string | null;
+  onUndo: () => void;
+}) {
+  const [text, setText] = useState("");
+  const add = () => {
+    const names = text.split(/[\n,;]/).map((s) => s.trim()).filter(Boolean);
+    if (names.length && onAdd(names)) setText("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="block text-sm font-semibold text-slate-700">Variables</label>
+        <div className="flex items-center gap-2">
+          {undoLabel && (
+            <button onClick={onUndo} className="flex items-center gap-1 text-xs text-indigo-600 border border-indigo-200 rounded-lg px-2 py-0.5 hover:bg-indigo-50" title={`Undo ${undoLabel}`}>
+              <Undo2 size={12} /> Undo {undoLabel}
+            </button>
+          )}
+          <span className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded-full">{vars.length} in model</span>
+          {vars.length > 0 && (
+            <button onClick={onClear} className="text-xs text-slate-500 hover:text-rose-600 border border-slate-200 rounded-lg px-2 py-0.5">Start empty</button>
+          )}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <textarea
+          className="flex-1 border border-slate-200 rounded-xl px-3 py-2 text-sm font-mono h-20 resize-none focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          placeholder={`Add variables...\none per line or comma-separated`}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <button onClick={add} disabled={!text.trim()} className="self-end bg-slate-800 text-white px-3 py-2 rounded-lg text-sm disabled:opacity-40">Add</button>
+      </div>
+      {vars.length > 0 && (
+        <div className="border border-slate-200 rounded-xl divide-y divide-slate-100 max-h-80 overflow-y-auto">
+          {vars.map((v, i) => (
+            <div key={v} className="flex items-center gap-2 px-3 py-1 text-sm">
+              <span className="w-6 text-right text-xs text-slate-400 font-mono">{i + 1}</span>
+              <NameInput value={v} onCommit={(name) => onRename(v, name)} className="flex-1 min-w-0 border border-transparent hover:border-slate-200 focus:border-indigo-300 rounded-lg px-2 py-0.5 font-medium text-slate-700 outline-none" />
+              {presetVars.includes(v) && <span className="text-[10px] uppercase font-semibold text-slate-400">preset</span>}
+              <button onClick={() => onMove(v, -1)} disabled={i === 0} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move up">
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => onMove(v, 1)} disabled={i === vars.length - 1} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move down">
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => onRemove(v)} className="text-slate-400 hover:text-rose-600" title="Remove variable">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import type { Coef } from "../masem/types";
+import { waldTest, type WaldTest } from "../masem/wald";
+
+/** Joint Wald test of linear hypotheses written over the edge labels set in step 2. */
+export default function WaldTestPanel({ coeffs, vcov }: { coeffs: Coef[]; vcov: number[][] }) {
+  const labels = [...new Set(coeffs.filter((c) => c.label && !c.fixed).map((c) => c.label!))];
+  const [text, setText] = useState<string>(() => (labels.length >= 2 ? `${labels[0]} - ${labels[1]} = 0` : ""));
+  // Tied to the coefficients it was computed from, so a re-estimation hides a stale result.
+  const [tested, setTested] = useState<{ coeffs: Coef[]; result: WaldTest | null; error: string | null } | null>(null);
+  const result = tested?.coeffs === coeffs ? tested.result : null;
+  const error = tested?.coeffs === coeffs ? tested.error : null;
+
+  const run = () => {
+    try {
+      setTested({ coeffs, result: waldTest(text, coeffs, vcov), error: null });
+    } catch (err: unknown) {
+      setTested({ coeffs, result: null, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-slate-50 px-5 py-3 border-b border-slate-200">
+        <h3 className="font-bold text-slate-700">Wald Test</h3>
+        <p className="text-xs text-slate-500">
+          One linear hypothesis per line over the labels {labels.length ? labels.join(", ") : "(none free)"}, e.g. <span className="font-mono">b1 - b2 = 0</span>. All lines are tested jointly.
+        </p>
+      </div>
+      <div className="p-5 space-y-3">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={3}
+          spellCheck={false}
+          className="w-full border border-slate-200 rounded-lg px-3 py-2 font-mono text-sm"
+          placeholder="b1 - b2 = 0"
+        />
+        <div className="flex items-center gap-4">
+          <button onClick={run} className="text-xs bg-indigo-600 text-white px-3 py-1 rounded-lg font-bold hover:bg-indigo-700">Test</button>
+          {result && (
+            <div className="text-sm font-mono text-slate-700">
+              χ²({result.df}) = {result.chi2.toFixed(3)}, p ={" "}
+              <span className={result.p < 0.05 ? "text-rose-600 font-bold" : "text-emerald-600 font-bold"}>{result.p < 0.001 ? "< .001" : result.p.toFixed(3)}</span>
+            </div>
+          )}
+        </div>
+        {error && <div className="text-xs text-rose-600">{error}</div>}
+        {result && <div className="text-[11px] text-slate-400">A significant result rejects the hypotheses. Uses the estimator's sampling covariance of the coefficients.</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  carryOverCellMatrix,
+  formatCellToken,
+  formatMatrixText,
+  makeEmptyCellMatrix,
+  parseCombinedMatrixText,
+  removeMatrixTextVar,
+  renameCellMatrixVar,
+  renameMatrixTextVar,
+} from "./cells";
+
+describe("cell tokens", () => {
+  it("reads r|n|k|tau2|Q with optional trailing and empty fields", () => {
+    const { cellMatrix } = parseCombinedMatrixText(",A,B,C\nA,1\nB,.45|800||0.01,1\nC,.3|500|6|.02|14.5,-.2(120),1");
+    expect(cellMatrix.B.A).toEqual({ r: 0.45, n: 800, tau2: 0.01 });
+    expect(cellMatrix.C.A).toEqual({ r: 0.3, n: 500, k: 6, tau2: 0.02, Q: 14.5 });
+    expect(cellMatrix.C.B).toEqual({ r: -0.2, n: 120 });
+    expect(cellMatrix.A.C).toEqual(cellMatrix.C.A);
+  });
+
+  it("formats a cell so that it parses back to the same cell", () => {
+    for (const cell of [{ r: 0.45, n: 800, tau2: 0.01 }, { r: 0.3, n: 500, k: 6, tau2: 0.02, Q: 14.5 }, { r: -0.2, n: 120 }]) {
+      const token = formatCellToken(cell);
+      expect(parseCombinedMatrixText(`,A,B\nA,1\nB,${token},1`).cellMatrix.B.A).toEqual(cell);
+    }
+    expect(formatCellToken({ r: 0.45, n: 800, tau2: 0.01 })).toBe("0.45|800||0.01");
+  });
+});
+
+describe("matrix text", () => {
+  const text = ",A,B,C\nA,1\nB,0.45|800,1\nC,0.3|500|6|0.02,-0.2|120,1";
+
+  it("formats a matrix as lower-triangular text that parses back", () => {
+    const { vars, cellMatrix } = parseCombinedMatrixText(text);
+    const formatted = formatMatrixText(vars, cellMatrix);
+    expect(formatted).toBe(",A,B,C\nA,1,,\nB,0.45|800,1,\nC,0.3|500|6|0.02,-0.2|120,1");
+    expect(parseCombinedMatrixText(formatted).cellMatrix).toEqual(cellMatrix);
+  });
+
+  it("keeps the cells of variables that stay when the variable list changes", () => {
+    const { cellMatrix } = parseCombinedMatrixText(text);
+    const next = carryOverCellMatrix(["A", "B", "C"], cellMatrix, ["C", "A", "D"], makeEmptyCellMatrix(["C", "A", "D"]));
+    expect(next.C.A).toEqual({ r: 0.3, n: 500, k: 6, tau2: 0.02 });
+    expect(next.D.A.r).toBeNaN();
+    expect(next.D.D).toEqual({ r: 1, n: Number.NaN });
+  });
+
+  it("renames a variable in the rows and columns of a matrix", () => {
+    const { cellMatrix } = parseCombinedMatrixText(text);
+    const M = renameCellMatrixVar(cellMatrix, "B", "Quality");
+    expect(Object.keys(M)).toEqual(["A", "Quality", "C"]);
+    expect(M.C.Quality).toEqual({ r: -0.2, n: 120 });
+    expect(M.Quality.Quality.r).toBe(1);
+  });
+});
+
+describe("editing matrix text", () => {
+  const text = "\n,A,B,C\nA,1\nB,.45(800),1\nC,.3|500|6,-.2|120,1";
+
+  it("renames a variable in the header and row labels only", () => {
+    expect(renameMatrixTextVar(text, "B", "Quality")).toBe("\n,A,Quality,C\nA,1\nQuality,.45(800),1\nC,.3|500|6,-.2|120,1");
+  });
+
+  it("drops the column and row of a removed variable and keeps the cells as typed", () => {
+    const out = removeMatrixTextVar(text, "B");
+    expect(out).toBe("\n,A,C\nA,1\nC,.3|500|6,1");
+    const { vars, cellMatrix } = parseCombinedMatrixText(out);
+    expect(vars).toEqual(["A", "C"]);
+    expect(cellMatrix.C.A).toEqual({ r: 0.3, n: 500, k: 6 });
+  });
+});
@@ -0,0 +1,305 @@
+import type { Cell, CellMatrix, VarName } from "./types";
+import { conditionNumber, symmetricEigen } from "./linalg";
+
+// --- Parsing Helpers ---
+
+function splitLine(line: string): string[] {
+  return line.split(/,|\t|;/).map((s) => s.trim());
+}
+
+const NUMBER = /^[+-]?\d*\.?\d+$/;
+
+// `r|n|k|tau2|Q`; everything after r is optional and may be left empty (e.g. `.45|800||0.01`).
+function parsePipedToken(t: string, isDiag: boolean): Cell | null {
+  const parts = t.split("|").map((s) => s.trim());
+  if (parts.length > 5 || !NUMBER.test(parts[0]) || parts.some((s) => s && !NUMBER.test(s))) return null;
+  const [r, n, k, tau2, Q] = parts.map((s) => (s ? Number(s) : Number.NaN));
+  const cell: Cell = { r, n: isDiag ? Number.NaN : n };
+  if (isDiag) return cell;
+  if (Number.isFinite(k)) cell.k = k;
+  if (Number.isFinite(tau2)) cell.tau2 = tau2;
+  if (Number.isFinite(Q)) cell.Q = Q;
+  return cell;
+}
+
+/** Inverse of the cell parser: `r|n`, followed by k, tau2 and Q when present. */
+export function formatCellToken(cell: Cell): string {
+  const fields = [cell.r, cell.n, cell.k, cell.tau2, cell.Q].map((x) => (x !== undefined && Number.isFinite(x) ? String(x) : ""));
+  while (fields.length > 1 && !fields[fields.length - 1]) fields.pop();
+  return fields.join("|");
+}
+
+function parseCellToken(token: string, isDiag: boolean): Cell {
+  const t = String(token ?? "").trim();
+  if (!t) return { r: Number.NaN, n: Number.NaN };
+
+  if (t.includes("|")) {
+    const cell = parsePipedToken(t, isDiag);
+    if (cell) return cell;
+  }
+  let m = t.match(/^([+-]?\d*\.?\d+)\s*[\(\[\{]\s*([+-]?\d*\.?\d+)\s*[\)\]\}]\s*$/);
+  if (m) {
+    const r = Number(m[1]);
+    const n = Number(m[2]);
+    return { r, n: isDiag ? Number.NaN : n };
+  }
+  m = t.match(/^([+-]?\d*\.?\d+)\s*$/);
+  if (m) {
+    const r = Number(m[1]);
+    return { r, n: isDiag ? Number.NaN : Number.NaN };
+  }
+
+  return { r: Number.NaN, n: Number.NaN };
+}
+
+export function parseCombinedMatrixText(text: string): { vars: VarName[]; cellMatrix: CellMatrix } {
+  const raw = (text || "").trim();
+  if (!raw) throw new Error("Matrix text is empty.");
+
+  const lines = raw
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  if (lines.length < 2) throw new Error("Matrix needs at least 2 rows.");
+
+  const rows = lines.map(splitLine);
+  const header = rows[0];
+  if (header.length < 2) throw new Error('Header row must include variable names (e.g., ",A,B,C").');
+
+  const vars = header.slice(1);
+  if (vars.some((v) => !v)) throw new Error("Header contains empty variable name.");
+  if (new Set(vars).size !== vars.length) throw new Error("Duplicate variable names in header.");
+
+  const cellMatrix: CellMatrix = {};
+
+  for (let i = 1; i < rows.length; i++) {
+    const rowName = rows[i][0];
+    if (!rowName) throw new Error(`Row ${i + 1} has empty variable name.`);
+    cellMatrix[rowName] = {};
+
+    for (let j = 1; j < header.length; j++) {
+      const colName = vars[j - 1];
+      const token = rows[i][j] ?? "";
+      const isDiag = rowName === colName;
+      const cell = parseCellToken(token, isDiag);
+      cellMatrix[rowName][colName] = cell;
+    }
+  }
+
+  for (const r of vars) {
+    if (!cellMatrix[r]) throw new Error(`Missing row for "${r}". Row names must match header.`);
+    // NOTE: We don't throw here if cells are missing, we just initialize them if needed in the symmetry step
+    for (const c of vars) {
+      if (!cellMatrix[r][c]) {
+         // Create empty cell if not parsed
+         cellMatrix[r][c] = { r: Number.NaN, n: Number.NaN };
+      }
+    }
+  }
+
+  for (const v of vars) {
+    cellMatrix[v][v] = { r: 1, n: Number.NaN };
+  }
+
+  // --- AUTO-SYMMETRY FIX ---
+  // If user pasted a lower triangular matrix, upper cells might be NaN. 
+  // We copy from lower to upper (or vice versa) to enforce symmetry immediately.
+  for (let i = 0; i < vars.length; i++) {
+    for (let j = i + 1; j < vars.length; j++) {
+      const r = vars[i];
+      const c = vars[j];
+      
+      const cellUpper = cellMatrix[r][c]; // (i,j)
+      const cellLower = cellMatrix[c][r]; // (j,i)
+
+      // If Upper is invalid but Lower is valid, copy Lower -> Upper
+      if ((!Number.isFinite(cellUpper.r)) && Number.isFinite(cellLower.r)) {
+         cellMatrix[r][c] = { ...cellLower };
+      }
+      // If Lower is invalid but Upper is valid, copy Upper -> Lower
+      else if ((!Number.isFinite(cellLower.r)) && Number.isFinite(cellUpper.r)) {
+         cellMatrix[c][r] = { ...cellUpper };
+      }
+    }
+  }
+
+  return { vars, cellMatrix };
+}
+
+export function makeEmptyCellMatrix(vars: VarName[]): CellMatrix {
+  const M: CellMatrix = {};
+  for (const r of vars) {
+    M[r] = {};
+    for (const c of vars) {
+      if (r === c) M[r][c] = { r: 1, n: Number.NaN };
+      else M[r][c] = { r: Number.NaN, n: Number.NaN };
+    }
+  }
+  return M;
+}
+
+export function carryOverCellMatrix(oldVars: VarName[], oldM: CellMatrix, newVars: VarName[], newM: CellMatrix): CellMatrix {
+  const ov = new Set(oldVars);
+  for (const r of newVars) {
+    if (!ov.has(r)) continue;
+    for (const c of newVars) {
+      if (!ov.has(c)) continue;
+      const cell = oldM?.[r]?.[c];
+      if (cell) newM[r][c] = { ...cell };
+    }
+  }
+  for (const v of newVars) newM[v][v] = { r: 1, n: Number.NaN };
+  return newM;
+}
+
+/** The matrix with variable `from` renamed to `to` in its rows and columns; cells are kept. */
+export function renameCellMatrixVar(M: CellMatrix, from: VarName, to: VarName): CellMatrix {
+  const key = (v: VarName) => (v === from ? to : v);
+  return Object.fromEntries(Object.entries(M).map(([r, row]) => [key(r), Object.fromEntries(Object.entries(row).map(([c, cell]) => [key(c), { ...cell }]))]));
+}
+
+// Applies `key` to the header names and row labels of matrix text; a null key drops that column
+// and row. Other lines and the cells themselves are left as typed.
+function rewriteMatrixText(text: string, key: (v: VarName) => VarName | null): string {
+  const lines = text.split(/\r?\n/);
+  const first = lines.findIndex((l) => l.trim());
+  if (first < 0) return text;
+  const keep = splitLine(lines[first]).map((h, j) => j === 0 || key(h) !== null);
+  const out: string[] = [];
+  lines.forEach((line, i) => {
+    if (i < first || !line.trim()) return out.push(line);
+    const cells = splitLine(line);
+    if (i > first && key(cells[0]) === null) return;
+    const named = cells.map((c, j) => ((i === first ? j > 0 : j === 0) ? (key(c) ?? c) : c));
+    out.push(named.filter((_, j) => keep[j] ?? true).join(","));
+  });
+  return out.join("\n");
+}
+
+/** Matrix text with variable `from` renamed to `to` in the header and row labels. */
+export function renameMatrixTextVar(text: string, from: VarName, to: VarName): string {
+  return rewriteMatrixText(text, (v) => (v === from ? to : v));
+}
+
+/** Matrix text without the column and row of variable `name`. */
+export function removeMatrixTextVar(text: string, name: VarName): string {
+  return rewriteMatrixText(text, (v) => (v === name ? null : v));
+}
+
+/** Lower-triangular text of the matrix, in the format read by parseCombinedMatrixText. */
+export function formatMatrixText(vars: VarName[], M: CellMatrix): string {
+  const rows = vars.map((r, i) => {
+    const cells = vars.map((c, j) => {
+      if (i === j) return "1";
+      const cell = M[r]?.[c];
+      return i > j && cell && Number.isFinite(cell.r) ? formatCellToken(cell) : "";
+    });
+    return [r, ...cells].join(",");
+  });
+  return [["", ...vars].join(","), ...rows].join("\n");
+}
+
+export function validateCellMatrix(vars: VarName[], M: CellMatrix): { ok: boolean; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const r of vars) {
+    if (!M[r]) errors.push(`Missing row "${r}".`);
+  }
+  if (errors.length) return { ok: false, errors, warnings };
+
+  for (const r of vars) {
+    for (const c of vars) {
+      const cell = M[r]?.[c];
+      if (!cell) {
+        errors.push(`Missing cell (${r}, ${c}).`);
+        continue;
+      }
+
+      const isDiag = r === c;
+      const rr = cell.r;
+
+      if (!Number.isFinite(rr)) {
+        errors.push(`Invalid correlation r at (${r}, ${c}).`);
+      } else {
+        if (rr < -1 || rr > 1) errors.push(`Correlation r out of bounds [-1,1] at (${r}, ${c}): ${rr}.`);
+        if (isDiag && Math.abs(rr - 1) > 1e-6) errors.push(`Diagonal must be 1. Found (${r},${c})=${rr}.`);
+      }
+
+      if (!isDiag) {
+        const nn = cell.n;
+        if (!Number.isFinite(nn)) {
+          errors.push(`Missing/invalid sample size n at (${r}, ${c}). Use r|n or r(n).`);
+        } else if (nn <= 2) {
+          errors.push(`Sample size n must be > 2 at (${r}, ${c}). Found n=${nn}.`);
+        }
+        if (cell.k !== undefined && !(Number.isInteger(cell.k) && cell.k >= 1)) errors.push(`Number of studies k must be a whole number ≥ 1 at (${r}, ${c}).`);
+        if (cell.tau2 !== undefined && !(cell.tau2 >= 0)) errors.push(`τ² must be ≥ 0 at (${r}, ${c}).`);
+        if (cell.Q !== undefined && !(cell.Q >= 0)) errors.push(`Q must be ≥ 0 at (${r}, ${c}).`);
+      }
+    }
+  }
+
+  for (let i = 0; i < vars.length; i++) {
+    for (let j = i + 1; j < vars.length; j++) {
+      const a = vars[i],
+        b = vars[j];
+      const c1 = M[a][b],
+        c2 = M[b][a];
+
+      if (Number.isFinite(c1?.r) && Number.isFinite(c2?.r) && Math.abs(c1.r - c2.r) > 1e-6) {
+        errors.push(`Matrix not symmetric in r: r(${a},${b}) != r(${b},${a}).`);
+      }
+      if (Number.isFinite(c1?.n) && Number.isFinite(c2?.n) && Math.abs(c1.n - c2.n) > 1e-6) {
+        warnings.push(`n not symmetric: n(${a},${b}) != n(${b},${a}). Consider making them equal.`);
+      }
+      const rr = M[a][b].r;
+      if (Number.isFinite(rr) && Math.abs(rr) >= 0.999999) {
+        warnings.push(`Very high |r|≈1 between ${a} and ${b}. This can make estimation unstable (singular).`);
+      }
+    }
+  }
+
+  if (!errors.length) {
+    const { values } = symmetricEigen(buildRMatrix(vars, M));
+    const min = values[values.length - 1];
+    const condition = conditionNumber(values);
+    if (min <= 1e-10) {
+      warnings.push(`Correlation matrix is not positive definite (smallest eigenvalue ${min.toFixed(4)}). ML and WLS will fail; repair it under Positive Definiteness in step 1.`);
+    } else if (condition > 1e4) {
+      warnings.push(`Correlation matrix is ill-conditioned (condition number ${condition.toFixed(0)}). Near-collinear variables make estimates and standard errors unstable.`);
+    }
+  }
+
+  return { ok: errors.length === 0, errors, warnings };
+}
+
+export function buildRMatrix(vars: VarName[], M: CellMatrix): number[][] {
+  return vars.map((r) => vars.map((c) => M[r][c].r));
+}
+
+function symN(M: CellMatrix, a: VarName, b: VarName): number {
+  const n1 = M[a]?.[b]?.n;
+  const n2 = M[b]?.[a]?.n;
+  if (Number.isFinite(n1) && Number.isFinite(n2)) return Math.min(n1, n2);
+  if (Number.isFinite(n1)) return n1;
+  if (Number.isFinite(n2)) return n2;
+  return Number.NaN;
+}
+
+export function computeTotalN(vars: VarName[], M: CellMatrix, method: "harmonic" | "min"): number {
+  const ns: number[] = [];
+  for (let i = 0; i < vars.length; i++) {
+    for (let j = i + 1; j < vars.length; j++) {
+      const n = symN(M, vars[i], vars[j]);
+      if (Number.isFinite(n)) ns.push(n);
+    }
+  }
+  if (ns.length === 0) return Number.NaN;
+  if (method === "min") return Math.min(...ns);
+
+  let denom = 0;
+  for (const n of ns) denom += 1 / n;
+  return ns.length / denom;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { collinearityWarnings, equationCollinearity } from "./collinearity";
+
+const edges: Edge[] = [
+  { kind: "path", from: "A", to: "Y" },
+  { kind: "path", from: "B", to: "Y" },
+];
+const diagnose = (r: number) => {
+  const { vars, cellMatrix } = parseCombinedMatrixText(`,A,B,Y\nA,1\nB,${r}|300,1\nY,.3|300,.3|300,1`);
+  return equationCollinearity(vars, cellMatrix, edges);
+};
+
+describe("equationCollinearity", () => {
+  it("matches the closed form for two predictors", () => {
+    const r = 0.8;
+    const [eq] = diagnose(r);
+    expect(eq.target).toBe("Y");
+    expect(eq.eigenvalues[0]).toBeCloseTo(1 + r, 12);
+    expect(eq.eigenvalues[1]).toBeCloseTo(1 - r, 12);
+    expect(eq.conditionIndex[1]).toBeCloseTo(Math.sqrt((1 + r) / (1 - r)), 10);
+    eq.tolerance.forEach((t) => expect(t).toBeCloseTo(1 - r * r, 10));
+    // Each predictor has (1 + r)/2 of its variance on the small dimension.
+    eq.proportions[1].forEach((p) => expect(p).toBeCloseTo((1 + r) / 2, 10));
+    expect(eq.level).toBe("none");
+  });
+
+  it("grades moderate and severe collinearity", () => {
+    expect(diagnose(0.92)[0].level).toBe("moderate");
+    expect(diagnose(0.99)[0].level).toBe("severe");
+    expect(collinearityWarnings(diagnose(0.99))[0]).toMatch(/^Y \(severe\): condition index 14\.1, low tolerance for A, B\.$/);
+    expect(collinearityWarnings(diagnose(0.5))).toEqual([]);
+  });
+});
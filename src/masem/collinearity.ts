@@ -0,0 +1,65 @@
+import type { CellMatrix, Edge, VarName } from "./types";
+import { parentsOf } from "./estimation";
+import { symmetricEigen } from "./linalg";
+
+// --- Multicollinearity diagnostics per equation (Belsley, Kuh & Welsch, 1980) ---
+
+export type CollinearityLevel = "none" | "moderate" | "severe";
+
+export type EquationCollinearity = {
+  target: VarName;
+  predictors: VarName[];
+  eigenvalues: number[]; // of the predictors' correlation matrix, decreasing
+  conditionIndex: number[]; // √(λmax / λj) per dimension; Infinity for a singular dimension
+  proportions: number[][]; // [dimension][predictor]: share of var(β) on that dimension
+  tolerance: number[]; // 1 / VIF per predictor
+  level: CollinearityLevel;
+};
+
+// Condition indices from 10 (moderate) and 30 (severe) matter when at least two predictors have
+// more than half their variance on that dimension; tolerances below .2 and .1 are flagged alike.
+const MODERATE = { index: 10, tolerance: 0.2 };
+const SEVERE = { index: 30, tolerance: 0.1 };
+
+function levelOf(conditionIndex: number[], proportions: number[][], tolerance: number[]): CollinearityLevel {
+  const hit = (t: { index: number; tolerance: number }) =>
+    conditionIndex.some((ci, d) => ci >= t.index && proportions[d].filter((x) => x > 0.5).length >= 2) || tolerance.some((x) => x < t.tolerance);
+  return hit(SEVERE) ? "severe" : hit(MODERATE) ? "moderate" : "none";
+}
+
+/**
+ * Diagnostics of every equation with observed predictors. With Rxx = V Λ V', var(β_i) is
+ * proportional to Σ_j v_ij² / λ_j, so a small eigenvalue inflates the coefficients loading on
+ * its eigenvector. Equations with latent or incomplete variables are skipped.
+ */
+export function equationCollinearity(vars: VarName[], cellM: CellMatrix, edges: Edge[]): EquationCollinearity[] {
+  const out: EquationCollinearity[] = [];
+  const observed = new Set(vars);
+  for (const y of vars) {
+    const X = parentsOf(y, edges);
+    if (!X.length || !X.every((x) => observed.has(x))) continue;
+    const Rxx = X.map((a) => X.map((b) => (a === b ? 1 : cellM[a]?.[b]?.r)));
+    if (!Rxx.flat().every(Number.isFinite)) continue;
+
+    const { values, vectors } = symmetricEigen(Rxx);
+    const conditionIndex = values.map((l) => (l > 1e-10 ? Math.sqrt(values[0] / l) : Number.POSITIVE_INFINITY));
+    // phi[i][j] = v_ij² / λ_j, with singular dimensions kept finite so that their share is ~1.
+    const phi = X.map((_, i) => values.map((l, j) => vectors[i][j] ** 2 / Math.max(l, 1e-12)));
+    const vif = phi.map((row) => row.reduce((s, x) => s + x, 0));
+    const proportions = values.map((_, j) => X.map((_, i) => phi[i][j] / vif[i]));
+    const tolerance = vif.map((x) => 1 / x);
+    out.push({ target: y, predictors: X, eigenvalues: values, conditionIndex, proportions, tolerance, level: levelOf(conditionIndex, proportions, tolerance) });
+  }
+  return out;
+}
+
+/** One line per equation with moderate or severe collinearity. */
+export function collinearityWarnings(list: EquationCollinearity[]): string[] {
+  return list
+    .filter((e) => e.level !== "none")
+    .map((e) => {
+      const ci = Math.max(...e.conditionIndex);
+      const low = e.predictors.filter((_, i) => e.tolerance[i] < MODERATE.tolerance);
+      return `${e.target} (${e.level}): condition index ${Number.isFinite(ci) ? ci.toFixed(1) : "∞"}${low.length ? `, low tolerance for ${low.join(", ")}` : ""}.`;
+    });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { Edge, EstResult } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { isNestedIn, nestedTests } from "./compare";
+import { estimateModel } from "./run";
+
+const path = (from: string, to: string, extra: Partial<Edge> = {}): Edge => ({ kind: "path", from, to, ...extra });
+
+const full = [path("X", "M"), path("W", "M"), path("M", "Y"), path("X", "Y")];
+
+describe("isNestedIn", () => {
+  it("accepts dropped, fixed and equality-constrained paths", () => {
+    expect(isNestedIn(full.slice(0, 3), full)).toBe(true);
+    expect(isNestedIn(full.map((e) => (e.from === "X" && e.to === "Y" ? { ...e, fixed: 0.2 } : e)), full)).toBe(true);
+    expect(isNestedIn([path("X", "M", { label: "a" }), path("W", "M", { label: "a" }), full[2], full[3]], full)).toBe(true);
+  });
+
+  it("rejects a model compared with itself or with one it does not restrict", () => {
+    expect(isNestedIn(full, full)).toBe(false);
+    expect(isNestedIn(full, full.slice(0, 3))).toBe(false);
+    // Different fixed values restrict the same parameter differently.
+    const fixedAt = (v: number) => full.map((e) => (e.from === "X" && e.to === "Y" ? { ...e, fixed: v } : e));
+    expect(isNestedIn(fixedAt(0.2), fixedAt(0.3))).toBe(false);
+    // Tying two paths is not nested in fixing one of them.
+    const tied = [path("X", "M", { label: "a" }), path("W", "M", { label: "a" }), full[2], full[3]];
+    expect(isNestedIn(tied, [path("X", "M", { fixed: 0.3 }), full[1], full[2], full[3]])).toBe(false);
+  });
+
+  it("requires the same endogenous variables", () => {
+    // Dropping the only path into M makes it exogenous, which frees its correlations.
+    expect(isNestedIn([path("W", "Y"), path("M", "Y"), path("X", "Y")], [...full, path("W", "Y")])).toBe(false);
+  });
+
+  it("ignores the drawing direction of residual covariances", () => {
+    const withCov: Edge[] = [path("X", "M"), path("X", "Y"), { kind: "cov", from: "M", to: "Y" }];
+    const reversed = [withCov[0], withCov[1], { ...withCov[2], from: "Y", to: "M" }];
+    expect(isNestedIn([withCov[0], withCov[1], { ...withCov[2], fixed: 0.1 }], reversed)).toBe(true);
+    expect(isNestedIn(withCov, reversed)).toBe(false);
+  });
+});
+
+describe("nestedTests", () => {
+  const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X,M,Y,W
+X,1
+M,.40|500,1
+Y,.35|500,.50|500,1
+W,.20|500,.30|500,.25|500,1
+`);
+  const fit = (edges: Edge[]): EstResult["fit"] => {
+    const out = estimateModel({ vars, cellM: cellMatrix, edges, estimator: "ML", nMethod: "harmonic" });
+    if (!out.ok) throw new Error(out.errors.join(" "));
+    return out.result.fit;
+  };
+
+  it("tests every nested pair by the chi-square difference", () => {
+    const general = [...full, path("W", "Y")];
+    const models = [
+      { name: "restricted", edges: full.slice(0, 3), fit: fit(full.slice(0, 3)) },
+      { name: "general", edges: general, fit: fit(general) },
+    ];
+    const [t] = nestedTests(models);
+    expect(nestedTests(models)).toHaveLength(1);
+    expect(t.restricted).toBe("restricted");
+    expect(t.dDf).toBe(2);
+    // The general model is saturated, so the difference is the restricted model's chi2.
+    expect(t.dChi2).toBeCloseTo(models[0].fit.chi2!, 8);
+    expect(t.p).toBeCloseTo(Math.exp(-t.dChi2 / 2), 10);
+  });
+});
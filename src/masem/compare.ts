@@ -0,0 +1,98 @@
+import type { Edge, Fit } from "./types";
+import { chiSquarePValue } from "./distributions";
+import { pathEdges } from "./estimation";
+
+// --- Nested model comparison ---
+
+export type SavedModel = { name: string; edges: Edge[] };
+
+export type ComparedModel = SavedModel & { fit?: Fit; error?: string };
+
+export type NestedTest = {
+  restricted: string;
+  general: string;
+  dChi2: number;
+  dDf: number;
+  p: number;
+  dCFI: number;
+  dRMSEA: number;
+};
+
+// Covariance edges are undirected, so their key does not depend on the drawing direction.
+function edgeKey(e: Edge): string {
+  return e.kind === "cov" ? `cov:${[e.from, e.to].sort().join("|")}` : `path:${e.from}->${e.to}`;
+}
+
+// A parameter is free, fixed at a value, or tied to the other parameters with its label.
+type Param = { fixed?: number; label?: string };
+
+/**
+ * Whether `restricted` keeps every restriction of `general`. A parameter the general model
+ * fixes (an omitted path or residual covariance is fixed at 0; omitted covariances among
+ * exogenous variables stay free) must be fixed at the same value, and parameters the general
+ * model ties by a label must be tied or fixed alike.
+ */
+function keepsRestrictions(restricted: Edge[], general: Edge[], endogenous: Set<string>): boolean {
+  const params = (edges: Edge[]) => new Map<string, Param>(edges.map((e) => [edgeKey(e), { fixed: e.fixed, label: e.label }]));
+  const r = params(restricted);
+  const g = params(general);
+  const param = (m: Map<string, Param>, e: Edge): Param => {
+    const exogenousCov = e.kind === "cov" && !endogenous.has(e.from) && !endogenous.has(e.to);
+    return m.get(edgeKey(e)) ?? (exogenousCov ? {} : { fixed: 0 });
+  };
+
+  for (const e of [...restricted, ...general]) {
+    const fixed = param(g, e).fixed;
+    if (fixed !== undefined && param(r, e).fixed !== fixed) return false;
+  }
+  return general.every((a) =>
+    general.every((b) => {
+      if (a === b || !a.label || a.label !== b.label || a.fixed !== undefined || b.fixed !== undefined) return true;
+      const pa = param(r, a);
+      const pb = param(r, b);
+      return pa.fixed !== undefined ? pa.fixed === pb.fixed : !!pa.label && pa.label === pb.label && pb.fixed === undefined;
+    })
+  );
+}
+
+/**
+ * `restricted` is nested in `general` when it adds restrictions to the general model: freed
+ * parameters dropped or fixed, or parameters tied by a shared label. Both must also have the
+ * same endogenous variables: dropping every path into a variable makes it exogenous and frees
+ * its correlations, which is not a restriction.
+ */
+export function isNestedIn(restricted: Edge[], general: Edge[]): boolean {
+  const endo = (edges: Edge[]) => [...new Set(pathEdges(edges).map((e) => e.to))].sort().join("|");
+  if (endo(restricted) !== endo(general)) return false;
+  const endogenous = new Set(pathEdges(general).map((e) => e.to));
+  return keepsRestrictions(restricted, general, endogenous) && !keepsRestrictions(general, restricted, endogenous);
+}
+
+// Saturated models carry no chi2/CFI/RMSEA; their fit is perfect by construction.
+function chi2Of(fit: Fit) {
+  return { chi2: fit.chi2 ?? 0, cfi: fit.cfi ?? 1, rmsea: fit.rmsea ?? 0 };
+}
+
+/** Chi-square difference tests for every nested pair among the estimated models. */
+export function nestedTests(models: ComparedModel[]): NestedTest[] {
+  const tests: NestedTest[] = [];
+  for (const r of models) {
+    for (const g of models) {
+      if (r === g || !r.fit || !g.fit || !isNestedIn(r.edges, g.edges)) continue;
+      const a = chi2Of(r.fit);
+      const b = chi2Of(g.fit);
+      const dChi2 = a.chi2 - b.chi2;
+      const dDf = r.fit.df - g.fit.df;
+      tests.push({
+        restricted: r.name,
+        general: g.name,
+        dChi2,
+        dDf,
+        p: dDf > 0 ? chiSquarePValue(Math.max(0, dChi2), dDf) : Number.NaN,
+        dCFI: a.cfi - b.cfi,
+        dRMSEA: a.rmsea - b.rmsea,
+      });
+    }
+  }
+  return tests;
+}
@@ -0,0 +1,54 @@
+// --- Correlation Vector Helpers ---
+
+/**
+ * Off-diagonal (i, j) index pairs of a p x p correlation matrix, lower triangle
+ * taken column by column. This is the element order used for every stacked
+ * correlation vector and asymptotic covariance matrix in the MASEM code.
+ */
+export function offDiagPairs(p: number): [number, number][] {
+  const out: [number, number][] = [];
+  for (let j = 0; j < p; j++) {
+    for (let i = j + 1; i < p; i++) out.push([i, j]);
+  }
+  return out;
+}
+
+export function vechs(R: number[][]): number[] {
+  return offDiagPairs(R.length).map(([i, j]) => R[i][j]);
+}
+
+export function unvechs(v: number[], p: number): number[][] {
+  const R = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j): number => (i === j ? 1 : 0)));
+  offDiagPairs(p).forEach(([i, j], k) => {
+    R[i][j] = v[k];
+    R[j][i] = v[k];
+  });
+  return R;
+}
+
+/**
+ * Olkin–Siotani asymptotic covariance between r_ij and r_kl, for a sample of size 1.
+ * Divide by n to get the sampling covariance.
+ */
+function olkinSiotani(P: number[][], i: number, j: number, k: number, l: number): number {
+  return (
+    0.5 * P[i][j] * P[k][l] * (P[i][k] ** 2 + P[i][l] ** 2 + P[j][k] ** 2 + P[j][l] ** 2) +
+    P[i][k] * P[j][l] +
+    P[i][l] * P[j][k] -
+    (P[i][j] * P[i][k] * P[i][l] + P[j][i] * P[j][k] * P[j][l] + P[k][i] * P[k][j] * P[k][l] + P[l][i] * P[l][j] * P[l][k])
+  );
+}
+
+/**
+ * Asymptotic covariance matrix of the off-diagonal correlations of P.
+ * `n` is either one sample size or one per element (in offDiagPairs order); with
+ * per-element sizes the covariance of two elements is scaled by 1/sqrt(n_a * n_b),
+ * which keeps the matrix positive definite whenever P is.
+ */
+export function correlationAcov(P: number[][], n: number | number[]): number[][] {
+  const pairs = offDiagPairs(P.length);
+  const ns = typeof n === "number" ? pairs.map(() => n) : n;
+  return pairs.map(([i, j], a) =>
+    pairs.map(([k, l], b) => olkinSiotani(P, i, j, k, l) / Math.sqrt(ns[a] * ns[b]))
+  );
+}
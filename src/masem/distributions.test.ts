@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  chiSquarePValue,
+  fPValue,
+  logGamma,
+  noncentralChiSquareCdf,
+  noncentralityForCdf,
+  normalCdf,
+  normalPValue,
+  normalQuantile,
+  tPValue,
+} from "./distributions";
+
+// Critical values from standard statistical tables.
+describe("central distributions", () => {
+  it("log-gamma matches closed forms", () => {
+    expect(logGamma(0.5)).toBeCloseTo(0.5 * Math.log(Math.PI), 12);
+    expect(logGamma(10)).toBeCloseTo(Math.log(362880), 10);
+  });
+
+  it("normal", () => {
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6);
+    expect(normalCdf(-1.644854)).toBeCloseTo(0.05, 6);
+    expect(normalPValue(2.575829)).toBeCloseTo(0.01, 6);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 6);
+    expect(normalQuantile(0.001)).toBeCloseTo(-3.090232, 6);
+  });
+
+  it("t (two-sided)", () => {
+    expect(tPValue(12.706205, 1)).toBeCloseTo(0.05, 6);
+    expect(tPValue(2.570582, 5)).toBeCloseTo(0.05, 6);
+    expect(tPValue(2.228139, 10)).toBeCloseTo(0.05, 6);
+    expect(tPValue(2.845340, 20)).toBeCloseTo(0.01, 6);
+    expect(tPValue(0, 7)).toBeCloseTo(1, 12);
+  });
+
+  it("chi-square (upper tail)", () => {
+    expect(chiSquarePValue(3.841459, 1)).toBeCloseTo(0.05, 6);
+    expect(chiSquarePValue(6.634897, 1)).toBeCloseTo(0.01, 6);
+    expect(chiSquarePValue(18.307038, 10)).toBeCloseTo(0.05, 6);
+    expect(chiSquarePValue(124.342113, 100)).toBeCloseTo(0.05, 6);
+    expect(chiSquarePValue(1, 0)).toBeNaN();
+  });
+
+  it("F (upper tail)", () => {
+    expect(fPValue(4.964603, 1, 10)).toBeCloseTo(0.05, 6);
+    expect(fPValue(2.710890, 5, 20)).toBeCloseTo(0.05, 6);
+    expect(fPValue(4.51, 3, 30)).toBeCloseTo(0.01, 4);
+    expect(fPValue(0, 2, 2)).toBe(1);
+    // F(1, df) is the square of t(df).
+    expect(fPValue(2.3 ** 2, 1, 14)).toBeCloseTo(tPValue(2.3, 14), 12);
+  });
+});
+
+describe("noncentral chi-square", () => {
+  it("reduces to the central distribution at lambda = 0", () => {
+    expect(noncentralChiSquareCdf(18.307038, 10, 0)).toBeCloseTo(0.95, 6);
+  });
+
+  it("matches the closed form for df = 1", () => {
+    // (Z + √λ)² ≤ x  ⇔  -√x - √λ ≤ Z ≤ √x - √λ
+    for (const [x, lambda] of [[3.841459, 7.8489], [2, 0.5], [10, 30], [50, 200]]) {
+      const exact = normalCdf(Math.sqrt(x) - Math.sqrt(lambda)) - normalCdf(-Math.sqrt(x) - Math.sqrt(lambda));
+      expect(noncentralChiSquareCdf(x, 1, lambda)).toBeCloseTo(exact, 8);
+    }
+  });
+
+  it("gives 80% power for lambda = 7.85 at alpha = .05 with df = 1 (Cohen, 1988)", () => {
+    expect(1 - noncentralChiSquareCdf(3.841459, 1, 7.8489)).toBeCloseTo(0.8, 3);
+  });
+
+  it("inverts the CDF in lambda", () => {
+    const lambda = noncentralityForCdf(25, 10, 0.05);
+    expect(noncentralChiSquareCdf(25, 10, lambda)).toBeCloseTo(0.05, 8);
+    expect(noncentralityForCdf(5, 10, 0.95)).toBe(0);
+  });
+});
@@ -0,0 +1,207 @@
+// --- Distribution functions ---
+// Regularized incomplete gamma and beta functions (Numerical Recipes, ch. 6.2 and 6.4) and the
+// normal, t, (noncentral) chi-square and F distributions built on them.
+
+const EPS = 1e-15;
+const FPMIN = 1e-300;
+
+/** log Γ(x) for x > 0 (Lanczos, g = 7). */
+export function logGamma(x: number): number {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  const z = x - 1;
+  let a = c[0];
+  const t = z + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (z + i);
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Regularized lower incomplete gamma P(a, x). */
+export function gammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let del = sum;
+    for (let n = 1; n < 1000; n++) {
+      del *= x / (a + n);
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * EPS) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+  }
+  return 1 - gammaQ(a, x);
+}
+
+/** Regularized upper incomplete gamma Q(a, x) = 1 - P(a, x), accurate in the far tail. */
+export function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x < a + 1) return 1 - gammaP(a, x);
+  let b = x + 1 - a;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < 1000; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta I_x(a, b). */
+export function betaI(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+// --- Normal ---
+
+export function normalCdf(z: number): number {
+  const q = 0.5 * gammaQ(0.5, (z * z) / 2);
+  return z >= 0 ? 1 - q : q;
+}
+
+/** Two-sided p-value of a z statistic. */
+export function normalPValue(z: number): number {
+  return gammaQ(0.5, (z * z) / 2);
+}
+
+/** Standard normal quantile: Acklam's rational approximation plus one Halley refinement. */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const lo = 0.02425;
+  let x: number;
+  if (p < lo || p > 1 - lo) {
+    const q = Math.sqrt(-2 * Math.log(p < lo ? p : 1 - p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    if (p > 1 - lo) x = -x;
+  } else {
+    const q = p - 0.5;
+    const r = q * q;
+    x = ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+  const e = normalCdf(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
+}
+
+// --- t, chi-square, F ---
+
+/** Two-sided p-value of a t statistic with `df` degrees of freedom. */
+export function tPValue(t: number, df: number): number {
+  if (!(df > 0)) return Number.NaN;
+  return betaI(df / 2, 0.5, df / (df + t * t));
+}
+
+export function chiSquareCdf(x: number, df: number): number {
+  return gammaP(df / 2, x / 2);
+}
+
+/** Upper-tail probability of a chi-square statistic. */
+export function chiSquarePValue(x: number, df: number): number {
+  if (!(df > 0)) return Number.NaN;
+  return gammaQ(df / 2, Math.max(0, x) / 2);
+}
+
+/** Upper-tail probability of an F statistic. */
+export function fPValue(f: number, df1: number, df2: number): number {
+  if (!(df1 > 0 && df2 > 0)) return Number.NaN;
+  if (f <= 0) return 1;
+  return betaI(df2 / 2, df1 / 2, df2 / (df2 + df1 * f));
+}
+
+/**
+ * Noncentral chi-square CDF as a Poisson(lambda / 2) mixture of central chi-squares, summed
+ * outward from the mode of the weights so large noncentralities stay accurate.
+ */
+export function noncentralChiSquareCdf(x: number, df: number, lambda: number): number {
+  if (x <= 0) return 0;
+  if (lambda <= 0) return chiSquareCdf(x, df);
+  const h = lambda / 2;
+  const mode = Math.floor(h);
+  const weight = (j: number) => Math.exp(-h + j * Math.log(h) - logGamma(j + 1));
+  let sum = 0;
+  for (let j = mode; j < mode + 10000; j++) {
+    const w = weight(j);
+    sum += w * gammaP(df / 2 + j, x / 2);
+    if (w < 1e-15 && j > h) break;
+  }
+  for (let j = mode - 1; j >= 0; j--) {
+    const w = weight(j);
+    sum += w * gammaP(df / 2 + j, x / 2);
+    if (w < 1e-15) break;
+  }
+  return Math.min(1, sum);
+}
+
+/**
+ * Noncentrality lambda with noncentralChiSquareCdf(x, df, lambda) = p; the CDF decreases in
+ * lambda, so the root is bracketed by doubling and found by bisection. Returns 0 when even
+ * lambda = 0 gives a CDF below p.
+ */
+export function noncentralityForCdf(x: number, df: number, p: number): number {
+  if (noncentralChiSquareCdf(x, df, 0) <= p) return 0;
+  let lo = 0;
+  let hi = Math.max(1, x);
+  while (noncentralChiSquareCdf(x, df, hi) > p && hi < 1e7) {
+    lo = hi;
+    hi *= 2;
+  }
+  for (let i = 0; i < 100 && hi - lo > 1e-10 * Math.max(1, hi); i++) {
+    const mid = (lo + hi) / 2;
+    if (noncentralChiSquareCdf(x, df, mid) > p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { Coef } from "./types";
+import { decomposeEffects } from "./effects";
+
+const coef = (from: string, to: string, beta: number): Coef => ({ kind: "path", from, to, beta, se: Number.NaN, t: Number.NaN, p: Number.NaN, vif: 1 });
+
+describe("decomposeEffects", () => {
+  // X → M → Y with a direct X → Y path; uncorrelated estimates with variances .01, .04, .09.
+  const coeffs = [coef("X", "M", 0.5), coef("M", "Y", 0.4), coef("X", "Y", 0.2)];
+  const vcov = [
+    [0.01, 0, 0],
+    [0, 0.04, 0],
+    [0, 0, 0.09],
+  ];
+  const rows = decomposeEffects(["X", "M", "Y"], coeffs, vcov);
+  const xy = rows.find((r) => r.from === "X" && r.to === "Y")!;
+
+  it("splits the total effect into direct and indirect parts", () => {
+    expect(xy.direct!.est).toBe(0.2);
+    expect(xy.indirect.est).toBeCloseTo(0.5 * 0.4, 10);
+    expect(xy.total.est).toBeCloseTo(0.2 + 0.5 * 0.4, 10);
+    expect(xy.specific.map((s) => s.route)).toEqual([["X", "M", "Y"]]);
+  });
+
+  it("gives the Sobel standard error for the indirect effect", () => {
+    const sobel = Math.sqrt(0.4 ** 2 * 0.01 + 0.5 ** 2 * 0.04);
+    expect(xy.indirect.se).toBeCloseTo(sobel, 6);
+    expect(xy.specific[0].se).toBeCloseTo(sobel, 10);
+    expect(xy.total.se).toBeCloseTo(Math.sqrt(sobel ** 2 + 0.09), 6);
+  });
+
+  it("lists only connected pairs", () => {
+    expect(rows.map((r) => `${r.from}->${r.to}`).sort()).toEqual(["M->Y", "X->M", "X->Y"]);
+    expect(rows.find((r) => r.from === "X" && r.to === "M")!.indirect.est).toBeCloseTo(0, 12);
+  });
+});
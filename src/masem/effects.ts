@@ -0,0 +1,92 @@
+import type { Coef, VarName } from "./types";
+import { normalPValue } from "./distributions";
+import { matIdentity, matInverse } from "./matrix";
+import { numericJacobian } from "./model";
+
+// --- Direct, indirect and total effects ---
+
+export type EffectEstimate = { est: number; se: number; p: number };
+
+export type SpecificIndirect = EffectEstimate & { route: VarName[] };
+
+export type EffectRow = {
+  from: VarName;
+  to: VarName;
+  direct: EffectEstimate | null;
+  indirect: EffectEstimate;
+  total: EffectEstimate;
+  specific: SpecificIndirect[];
+};
+
+function withSE(est: number, grad: number[], V: number[][]): EffectEstimate {
+  let v = 0;
+  for (let i = 0; i < grad.length; i++) for (let j = 0; j < grad.length; j++) v += grad[i] * V[i][j] * grad[j];
+  const se = Math.sqrt(Math.max(0, v));
+  return { est, se, p: se > 0 ? normalPValue(est / se) : Number.NaN };
+}
+
+// Every simple directed route of two or more paths from `from` to `to`.
+function simpleRoutes(from: VarName, to: VarName, children: Map<VarName, VarName[]>): VarName[][] {
+  const out: VarName[][] = [];
+  const walk = (cur: VarName, route: VarName[]) => {
+    for (const next of children.get(cur) ?? []) {
+      if (route.includes(next)) continue;
+      if (next === to) {
+        if (route.length >= 2) out.push([...route, next]);
+      } else walk(next, [...route, next]);
+    }
+  };
+  walk(from, [from]);
+  return out;
+}
+
+/**
+ * Total effects (I - B)^-1 - I and indirect effects (total minus direct) for every connected
+ * pair, with delta-method SEs from `vcov` (the sampling covariance of `coeffs`). Specific
+ * indirect effects are the products of the coefficients along each simple route.
+ */
+export function decomposeEffects(vars: VarName[], coeffs: Coef[], vcov: number[][]): EffectRow[] {
+  const paths = coeffs.map((c, i) => ({ c, i })).filter(({ c }) => c.kind === "path");
+  const V = paths.map((a) => paths.map((b) => vcov[a.i][b.i]));
+  const beta = paths.map(({ c }) => c.beta);
+  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
+  const p = vars.length;
+
+  const totals = (b: number[]) => {
+    const IminusB = matIdentity(p);
+    paths.forEach(({ c }, k) => (IminusB[idx[c.to]][idx[c.from]] -= b[k]));
+    const T = matInverse(IminusB);
+    return T.flatMap((row, i) => row.map((x, j) => (i === j ? x - 1 : x)));
+  };
+  const T = totals(beta);
+  const J = numericJacobian(totals, beta);
+
+  const children = new Map<VarName, VarName[]>();
+  for (const { c } of paths) children.set(c.from, [...(children.get(c.from) ?? []), c.to]);
+
+  const rows: EffectRow[] = [];
+  for (const x of vars) {
+    for (const y of vars) {
+      if (x === y) continue;
+      const routes = simpleRoutes(x, y, children);
+      const directK = paths.findIndex(({ c }) => c.from === x && c.to === y);
+      if (routes.length === 0 && directK < 0) continue;
+
+      const e = idx[y] * p + idx[x];
+      const total = withSE(T[e], J[e], V);
+      const indirectGrad = J[e].map((g, k) => (k === directK ? g - 1 : g));
+      const direct = directK >= 0 ? withSE(beta[directK], beta.map((_, k) => (k === directK ? 1 : 0)), V) : null;
+      const indirect = withSE(T[e] - (direct?.est ?? 0), indirectGrad, V);
+
+      const specific = routes.map((route) => {
+        const ks = route.slice(1).map((to, s) => paths.findIndex(({ c }) => c.from === route[s] && c.to === to));
+        const est = ks.reduce((prod, k) => prod * beta[k], 1);
+        const grad = beta.map((_, k) => (ks.includes(k) ? ks.filter((j) => j !== k).reduce((prod, j) => prod * beta[j], 1) : 0));
+        return { route, ...withSE(est, grad, V) };
+      });
+
+      rows.push({ from: x, to: y, direct, indirect, total, specific });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { computeFitIndices, computeInformationCriteria, fitML, rmseaInterval } from "./estimation";
+
+// Three-factor CFA of the Holzinger–Swineford (1939) data, N = 301, as reported by lavaan.
+// lavaan divides by N where this module uses N - 1, which moves the RMSEA by about .0001.
+const hs = { chi2: 85.306, df: 24, chi2_0: 918.852, df0: 36, N: 301 };
+const near = (x: number, published: number) => expect(Math.abs(x - published)).toBeLessThan(1e-3);
+
+describe("computeFitIndices", () => {
+  it("reproduces published CFI, TLI and RMSEA", () => {
+    const fit = computeFitIndices(hs);
+    expect(fit.cfi).toBeCloseTo(0.931, 3);
+    expect(fit.tli).toBeCloseTo(0.896, 3);
+    near(fit.rmsea, 0.092);
+    expect(fit.pvalue).toBeLessThan(1e-7);
+  });
+});
+
+describe("rmseaInterval", () => {
+  it("reproduces the published 90% interval and PCLOSE", () => {
+    const { rmseaLo, rmseaHi, pclose } = rmseaInterval(hs.chi2, hs.df, hs.N);
+    near(rmseaLo, 0.071);
+    near(rmseaHi, 0.114);
+    near(pclose, 0.001);
+  });
+
+  it("starts at zero when chi2 is below its 5th percentile under perfect fit", () => {
+    const { rmseaLo, rmseaHi, pclose } = rmseaInterval(10, 24, 301);
+    expect(rmseaLo).toBe(0);
+    expect(rmseaHi).toBe(0);
+    expect(pclose).toBeCloseTo(1, 3);
+  });
+});
+
+describe("computeInformationCriteria", () => {
+  it("reproduces published AIC, BIC and sample-size adjusted BIC", () => {
+    // logLik = -3737.745 with 21 free parameters (lavaan, Holzinger–Swineford CFA).
+    const ic = computeInformationCriteria({ logLik: -3737.745, chi2: hs.chi2, gfi: 0.943, q: 21, df: hs.df, observedMoments: 45, N: hs.N });
+    expect(ic.aic).toBeCloseTo(7517.49, 2);
+    expect(ic.bic).toBeCloseTo(7595.339, 2);
+    expect(ic.sabic).toBeCloseTo(7528.739, 2);
+    expect(ic.ecvi).toBeCloseTo((85.306 + 42) / 300, 12);
+    expect(ic.agfi).toBeCloseTo(1 - (45 / 24) * 0.057, 12);
+  });
+});
+
+describe("fitML", () => {
+  const r = 0.6;
+  const S = [
+    [1, r],
+    [r, 1],
+  ];
+
+  it("gives the independence chi2 and the saturated log-likelihood in closed form", () => {
+    const fit = fitML(S, S, 200);
+    expect(fit.chi2).toBeCloseTo(0, 10);
+    expect(fit.gfi).toBeCloseTo(1, 12);
+    expect(fit.chi2_0).toBeCloseTo(-199 * Math.log(1 - r * r), 10);
+    expect(fit.logLik).toBeCloseTo(-100 * (2 * Math.log(2 * Math.PI) + Math.log(1 - r * r) + 2), 8);
+  });
+
+  it("equals the independence chi2 when the model implies no correlation", () => {
+    const fit = fitML(S, [
+      [1, 0],
+      [0, 1],
+    ], 200);
+    expect(fit.chi2).toBeCloseTo(fit.chi2_0, 10);
+  });
+});
@@ -0,0 +1,305 @@
+import type { Coef, CellMatrix, Edge, VarName } from "./types";
+import { offDiagPairs } from "./correlation";
+import { chiSquarePValue, noncentralChiSquareCdf, noncentralityForCdf, normalPValue, tPValue } from "./distributions";
+import { cholesky, choleskyInverse, choleskyLogDet, logDet, spdInverse } from "./linalg";
+import { matIdentity, matInverse, matMul, matVecMul, vecDot, transpose, matTrace } from "./matrix";
+
+// --- Significance ---
+
+export function getSignificanceStar(p: number) {
+  if (p < 0.001) return "***";
+  if (p < 0.01) return "**";
+  if (p < 0.05) return "*";
+  return "";
+}
+
+// --- Stats Estimation Core ---
+
+export function pathEdges(edges: Edge[]): Edge[] {
+  return edges.filter((e) => e.kind === "path");
+}
+
+export function covEdges(edges: Edge[]): Edge[] {
+  return edges.filter((e) => e.kind === "cov");
+}
+
+export function parentsOf(node: VarName, edges: Edge[]): VarName[] {
+  return pathEdges(edges).filter((e) => e.to === node).map((e) => e.from);
+}
+
+// Rows of d beta / d r (one per predictor, columns in offDiagPairs order over `vars`) for
+// beta = Rxx^-1 rXy. With the asymptotic covariance of the pooled correlations this gives the
+// delta-method covariance of the estimates (Becker's GLS approach for stage 2).
+function betaJacobianRows(
+  vars: VarName[],
+  X: VarName[],
+  y: VarName,
+  inv: number[][],
+  beta: number[]
+): number[][] {
+  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
+  const elemIndex = new Map(offDiagPairs(vars.length).map(([i, j], k) => [`${i}|${j}`, k]));
+  const elemOf = (a: VarName, b: VarName) => {
+    const i = Math.max(idx[a], idx[b]);
+    const j = Math.min(idx[a], idx[b]);
+    return elemIndex.get(`${i}|${j}`)!;
+  };
+
+  const rows = X.map(() => Array(elemIndex.size).fill(0));
+  X.forEach((a, ia) => {
+    const e = elemOf(a, y);
+    rows.forEach((row, i) => (row[e] += inv[i][ia]));
+    X.forEach((b, ib) => {
+      if (ib <= ia) return;
+      const e2 = elemOf(a, b);
+      rows.forEach((row, i) => (row[e2] -= inv[i][ia] * beta[ib] + inv[i][ib] * beta[ia]));
+    });
+  });
+  return rows;
+}
+
+/**
+ * Equation-by-equation estimates from the correlation matrix. When `acov` (the asymptotic
+ * covariance of the pooled correlations, in offDiagPairs order over `vars`) is supplied, the
+ * standard errors come from the delta method instead of the single-sample OLS formula.
+ * `vcov` is the sampling covariance of the estimates in `coeffs` order.
+ */
+export function estimatePathsFromCorrelation(
+  vars: VarName[],
+  cellM: CellMatrix,
+  edges: Edge[],
+  totalN: number,
+  acov?: number[][]
+): {
+  coeffs: Coef[];
+  r2: Record<VarName, number>;
+  resid: Record<VarName, number>;
+  vcov: number[][];
+} {
+  const coeffs: Coef[] = [];
+  const r2: Record<VarName, number> = {};
+  const resid: Record<VarName, number> = {};
+  const endogenous = new Set(pathEdges(edges).map((e) => e.to));
+  const jacobian: number[][] = [];
+  const blocks: { start: number; cov: number[][] }[] = [];
+
+  for (const y of vars) {
+    const X = parentsOf(y, edges);
+    if (X.length === 0) continue;
+
+    const Rxx = X.map((a) => X.map((b) => cellM[a][b].r));
+    const rXy = X.map((a) => cellM[a][y].r);
+
+    let inv: number[][];
+    try {
+      inv = choleskyInverse(cholesky(Rxx));
+    } catch {
+      throw new Error(`Correlations among the predictors of ${y} (${X.join(", ")}) are not positive definite. Check them for collinearity or repair the matrix in step 1.`);
+    }
+    const beta = matVecMul(inv, rXy);
+
+    // Calculate R2
+    const R2 = vecDot(rXy, beta);
+    r2[y] = R2;
+    resid[y] = Math.max(1e-8, 1 - R2);
+
+    const k = X.length;
+    const df = totalN - k - 1;
+    const errorVar = (1 - R2) / df;
+    if (acov) jacobian.push(...betaJacobianRows(vars, X, y, inv, beta));
+    else blocks.push({ start: coeffs.length, cov: inv.map((row) => row.map((x) => errorVar * x)) });
+
+    X.forEach((x, i) => {
+      const vif = inv[i][i];
+      const se = Math.sqrt(errorVar * vif);
+      const t = Math.abs(beta[i] / se);
+      const p = tPValue(t, df);
+
+      coeffs.push({ 
+        kind: "path",
+        from: x, 
+        to: y, 
+        beta: beta[i],
+        se,
+        t,
+        p,
+        vif,
+        df
+      });
+    });
+  }
+
+  for (const v of vars) {
+    if (endogenous.has(v) && !(v in resid)) resid[v] = 1;
+  }
+
+  let vcov: number[][];
+  if (acov) {
+    const JA = matMul(jacobian, acov);
+    vcov = matMul(JA, transpose(jacobian));
+    coeffs.forEach((c, i) => {
+      c.se = Math.sqrt(vcov[i][i]);
+      c.t = Math.abs(c.beta / c.se);
+      c.p = normalPValue(c.t);
+      delete c.df;
+    });
+  } else {
+    vcov = coeffs.map(() => coeffs.map(() => 0));
+    for (const b of blocks) b.cov.forEach((row, i) => row.forEach((x, j) => (vcov[b.start + i][b.start + j] = x)));
+  }
+
+  return { coeffs, r2, resid, vcov };
+}
+
+export function impliedSigmaRecursive(
+  vars: VarName[],
+  S: number[][],
+  edges: Edge[],
+  coeffs: Coef[],
+  residVar: Record<VarName, number>
+): number[][] {
+  const p = vars.length;
+  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
+  const endogenous = new Set(pathEdges(edges).map((e) => e.to));
+
+  const B = Array.from({ length: p }, () => Array(p).fill(0));
+  for (const e of coeffs) {
+    if (e.kind === "path") B[idx[e.to]][idx[e.from]] = e.beta;
+  }
+
+  const exoIdx = vars.map((v, i) => (!endogenous.has(v) ? i : -1)).filter((i) => i >= 0);
+  const Psi = Array.from({ length: p }, () => Array(p).fill(0));
+
+  for (let a = 0; a < exoIdx.length; a++) {
+    for (let b = 0; b < exoIdx.length; b++) {
+      const i = exoIdx[a],
+        j = exoIdx[b];
+      Psi[i][j] = S[i][j];
+    }
+  }
+
+  for (const v of vars) {
+    const i = idx[v];
+    if (endogenous.has(v)) Psi[i][i] = Math.max(1e-8, residVar[v] ?? 1);
+  }
+
+  const I = matIdentity(p);
+  const IminusB = I.map((row, i) => row.map((x, j) => x - B[i][j]));
+  const inv = matInverse(IminusB);
+  const invT = transpose(inv);
+
+  return matMul(matMul(inv, Psi), invT);
+}
+
+export function srmrOffDiag(S: number[][], Sigma: number[][]): number {
+  const p = S.length;
+  let sum = 0,
+    k = 0;
+  for (let i = 0; i < p; i++) {
+    for (let j = i + 1; j < p; j++) {
+      const d = S[i][j] - Sigma[i][j];
+      sum += d * d;
+      k++;
+    }
+  }
+  return Math.sqrt(sum / Math.max(1, k));
+}
+
+/**
+ * ML discrepancy of the implied matrix against S (chi2) and against the independence model
+ * (chi2_0), the normal-theory log-likelihood and the ML goodness-of-fit index.
+ */
+export function fitML(S: number[][], Sigma: number[][], N: number): { chi2: number; chi2_0: number; logLik: number; gfi: number } {
+  const p = S.length;
+  let logDetS: number, LSig: number[][];
+  try {
+    logDetS = logDet(S);
+    LSig = cholesky(Sigma);
+  } catch {
+    throw new Error("Observed/implied matrix not positive definite. Check correlations or model constraints.");
+  }
+  const logDetSig = choleskyLogDet(LSig);
+
+  const SigInv = choleskyInverse(LSig);
+  const SigInvS = matMul(SigInv, S);
+  const tr = matTrace(SigInvS);
+  const Fml = logDetSig + tr - logDetS - p;
+  const chi2 = (N - 1) * Fml;
+  const logLik = (-N / 2) * (p * Math.log(2 * Math.PI) + logDetSig + tr);
+  const E = SigInvS.map((row, i) => row.map((x, j) => (i === j ? x - 1 : x)));
+  const gfi = 1 - matTrace(matMul(E, E)) / matTrace(matMul(SigInvS, SigInvS));
+
+  const Sigma0 = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => (i === j ? S[i][i] : 0))
+  );
+  const tr0 = matTrace(matMul(S, spdInverse(Sigma0)));
+  const F0 = logDet(Sigma0) + tr0 - logDetS - p;
+  const chi2_0 = (N - 1) * F0;
+
+  return { chi2, chi2_0, logLik, gfi };
+}
+
+export function computeFitIndices(args: { chi2: number; df: number; chi2_0: number; df0: number; N: number }) {
+  const { chi2, df, chi2_0, df0, N } = args;
+  const nfi = (chi2_0 - chi2) / Math.max(1e-12, chi2_0);
+  const ifi = (chi2_0 - chi2) / Math.max(1e-12, chi2_0 - df);
+  const cfi = 1 - Math.max(0, chi2 - df) / Math.max(1e-12, chi2_0 - df0);
+  const tli = 1 - (chi2 / Math.max(1e-12, df) - 1) / (chi2_0 / Math.max(1e-12, df0) - 1);
+  const rmsea = Math.sqrt(Math.max(0, (chi2 - df) / (Math.max(1e-12, df) * (N - 1))));
+  return { cfi, tli, rmsea, nfi, ifi, pvalue: chiSquarePValue(chi2, df), ...rmseaInterval(chi2, df, N) };
+}
+
+/**
+ * Information criteria from the log-likelihood and q free parameters, ECVI = (chi2 + 2q)/(N - 1)
+ * and AGFI, which rescales GFI by the p(p + 1)/2 observed moments per model df.
+ */
+export function computeInformationCriteria(args: {
+  logLik: number;
+  chi2: number;
+  gfi: number;
+  q: number;
+  df: number;
+  observedMoments: number;
+  N: number;
+}) {
+  const { logLik, chi2, gfi, q, df, observedMoments, N } = args;
+  return {
+    aic: -2 * logLik + 2 * q,
+    bic: -2 * logLik + q * Math.log(N),
+    sabic: -2 * logLik + q * Math.log((N + 2) / 24),
+    ecvi: (chi2 + 2 * q) / (N - 1),
+    agfi: df > 0 ? 1 - (observedMoments / df) * (1 - gfi) : Number.NaN,
+  };
+}
+
+/**
+ * 90% RMSEA interval from the noncentralities that put chi2 at the 95th and 5th percentiles
+ * of the noncentral chi-square, and PCLOSE = P(chi2 or larger | RMSEA = .05).
+ */
+export function rmseaInterval(chi2: number, df: number, N: number): { rmseaLo: number; rmseaHi: number; pclose: number } {
+  const toRmsea = (lambda: number) => Math.sqrt(lambda / (df * (N - 1)));
+  return {
+    rmseaLo: toRmsea(noncentralityForCdf(chi2, df, 0.95)),
+    rmseaHi: toRmsea(noncentralityForCdf(chi2, df, 0.05)),
+    pclose: Math.max(0, 1 - noncentralChiSquareCdf(chi2, df, 0.05 * 0.05 * df * (N - 1))),
+  };
+}
+
+export function countDF(vars: VarName[], edges: Edge[]) {
+  const observedMoments = (vars.length * (vars.length + 1)) / 2;
+  const endogenous = new Set(pathEdges(edges).map((e) => e.to));
+  const endoCount = vars.filter((v) => endogenous.has(v)).length;
+  // Exogenous variances and covariances are model parameters too (fixed at S only by the OLS shortcut).
+  const exoCount = vars.length - endoCount;
+  const residCovs = covEdges(edges).filter((e) => endogenous.has(e.from) && endogenous.has(e.to)).length;
+  // Fixed edges are not estimated and edges sharing a label count once. Only edges that are
+  // parameters above count: covariances between an exogenous and an endogenous variable are not.
+  const params = edges.filter((e) => e.kind === "path" || endogenous.has(e.from) === endogenous.has(e.to));
+  const free = params.filter((e) => e.fixed === undefined);
+  const labelled = free.filter((e) => e.label);
+  const constrained = params.length - free.length + labelled.length - new Set(labelled.map((e) => e.label)).size;
+  const freeParams = pathEdges(edges).length + residCovs + endoCount + (exoCount * (exoCount + 1)) / 2 - constrained;
+  const df = Math.max(0, observedMoments - freeParams);
+  const df0 = (vars.length * (vars.length - 1)) / 2;
+  return { df, df0, observedMoments, freeParams, endoCount };
+}
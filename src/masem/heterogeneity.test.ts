@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { cellHeterogeneity } from "./heterogeneity";
+
+describe("cellHeterogeneity", () => {
+  it("returns null without tau2 or Q", () => {
+    expect(cellHeterogeneity({ r: 0.3, n: 500, k: 5 })).toBeNull();
+  });
+
+  it("derives I2 from Q and the credibility interval from tau2", () => {
+    const h = cellHeterogeneity({ r: 0.3, n: 1000, k: 10, Q: 27, tau2: 0.01 })!;
+    expect(h.I2).toBeCloseTo((27 - 9) / 27, 12);
+    expect(h.pQ).toBeCloseTo(0.0014, 4); // chi-square table: P(chi2(9) > 27) = .0014
+    // 80% interval: r ± 1.2816 τ
+    expect(h.credibility[0]).toBeCloseTo(0.3 - 1.281552 * 0.1, 6);
+    expect(h.credibility[1]).toBeCloseTo(0.3 + 1.281552 * 0.1, 6);
+  });
+
+  it("estimates tau2 from Q with the typical within-study variance", () => {
+    const h = cellHeterogeneity({ r: 0.3, n: 1000, k: 10, Q: 27 })!;
+    const v = (1 - 0.09) ** 2 / (100 - 1);
+    expect(h.tau2).toBeCloseTo((v * 18) / 9, 12);
+  });
+
+  it("derives I2 from tau2 when Q is missing", () => {
+    const h = cellHeterogeneity({ r: 0.3, n: 1000, k: 10, tau2: 0.01 })!;
+    const v = (1 - 0.09) ** 2 / 99;
+    expect(h.I2).toBeCloseTo(0.01 / (0.01 + v), 12);
+    expect(h.pQ).toBeNaN();
+  });
+
+  it("clips the credibility interval to [-1, 1]", () => {
+    const h = cellHeterogeneity({ r: 0.9, n: 400, k: 4, tau2: 0.09 }, 0.95)!;
+    expect(h.credibility[1]).toBe(1);
+  });
+});
@@ -0,0 +1,40 @@
+import type { Cell } from "./types";
+import { chiSquarePValue, normalQuantile } from "./distributions";
+
+// --- Heterogeneity of a pooled correlation ---
+
+export type CellHeterogeneity = {
+  k: number;
+  Q: number;
+  pQ: number;
+  tau2: number;
+  I2: number;
+  credibility: [number, number]; // r ± z·τ, clipped to [-1, 1]
+};
+
+/**
+ * I², τ² and a credibility interval for one pooled r from whatever the cell holds. With k and n
+ * the typical within-study variance is v = (1 - r²)² / (n/k - 1); τ² missing but Q given is then
+ * the equal-weight DerSimonian–Laird value v·(Q - (k - 1))/(k - 1), and I² without Q is τ²/(τ² + v).
+ * Returns null when the cell has neither τ² nor Q. Unknown quantities are NaN.
+ */
+export function cellHeterogeneity(cell: Cell, level = 0.8): CellHeterogeneity | null {
+  if (cell.tau2 === undefined && cell.Q === undefined) return null;
+  const k = cell.k ?? Number.NaN;
+  const Q = cell.Q ?? Number.NaN;
+  const v = k >= 1 && cell.n / k > 1 ? (1 - cell.r * cell.r) ** 2 / (cell.n / k - 1) : Number.NaN;
+
+  const tau2 = cell.tau2 ?? (k > 1 ? (v * Math.max(0, Q - (k - 1))) / (k - 1) : Number.NaN);
+  const I2 = Number.isFinite(Q) && k > 1 ? (Q > 0 ? Math.max(0, (Q - (k - 1)) / Q) : 0) : tau2 / (tau2 + v);
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const half = z * Math.sqrt(tau2);
+
+  return {
+    k,
+    Q,
+    pQ: Number.isFinite(Q) && k > 1 ? chiSquarePValue(Q, k - 1) : Number.NaN,
+    tau2,
+    I2,
+    credibility: [Math.max(-1, cell.r - half), Math.min(1, cell.r + half)],
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { Edge, Latent } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { countLatentDF, measurementSummary, validateLatents } from "./latent";
+import { estimatePathsML } from "./ml";
+
+// Population correlations of two factors with loadings .8/.7/.6 and .9/.7/.5 and a path of .5.
+const l1 = [0.8, 0.7, 0.6];
+const l2 = [0.9, 0.7, 0.5];
+const names = ["a1", "a2", "a3", "b1", "b2", "b3"];
+const lambda = [...l1, ...l2];
+const factor = (i: number) => (i < 3 ? 0 : 1);
+const text = [
+  ["", ...names].join(","),
+  ...names.map((v, i) => [v, ...names.slice(0, i).map((_, j) => `${(lambda[i] * lambda[j] * (factor(i) === factor(j) ? 1 : 0.5)).toFixed(6)}|300`), "1"].join(",")),
+].join("\n");
+const { vars, cellMatrix } = parseCombinedMatrixText(text);
+
+const latents: Latent[] = [
+  { name: "A", indicators: ["a1", "a2", "a3"] },
+  { name: "B", indicators: ["b1", "b2", "b3"] },
+];
+const edges: Edge[] = [{ kind: "path", from: "A", to: "B" }];
+
+describe("latent variable models", () => {
+  const { ml, spec, coeffs } = estimatePathsML(vars, cellMatrix, edges, 300, latents);
+
+  it("recovers the standardized loadings and the structural path from population correlations", () => {
+    expect(ml.chi2).toBeCloseTo(0, 6);
+    expect(coeffs.find((c) => c.from === "A" && c.to === "B")!.beta).toBeCloseTo(0.5, 5);
+    const [a, b] = measurementSummary(spec, ml.theta, ml.vcov);
+    a.loadings.forEach((l, i) => expect(l.lambda).toBeCloseTo(l1[i], 5));
+    b.loadings.forEach((l, i) => expect(l.lambda).toBeCloseTo(l2[i], 5));
+  });
+
+  it("reports AVE and composite reliability", () => {
+    const [a] = measurementSummary(spec, ml.theta, ml.vcov);
+    const sum = 0.8 + 0.7 + 0.6;
+    expect(a.ave).toBeCloseTo((0.64 + 0.49 + 0.36) / 3, 5);
+    expect(a.cr).toBeCloseTo(sum ** 2 / (sum ** 2 + 0.36 + 0.51 + 0.64), 5);
+  });
+
+  it("counts the degrees of freedom of the equivalent two-factor CFA", () => {
+    // 21 moments - 6 loadings - 6 unique variances - 1 factor correlation.
+    expect(countLatentDF(spec).df).toBe(8);
+  });
+});
+
+describe("validateLatents", () => {
+  it("rejects indicators shared by two factors and unknown indicators", () => {
+    expect(validateLatents(vars, [latents[0], { name: "C", indicators: ["a1", "b1"] }], edges).length).toBeGreaterThan(0);
+    expect(validateLatents(vars, [{ name: "C", indicators: ["x1", "b1"] }], []).length).toBeGreaterThan(0);
+    expect(validateLatents(vars, latents, edges)).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import type { CellMatrix, Coef, Edge, Latent, Measurement, VarName } from "./types";
+import { buildRMatrix } from "./cells";
+import { normalPValue } from "./distributions";
+import { estimatePathsFromCorrelation } from "./estimation";
+import { estimatePaths2SLS, isRecursive, stabilityIndex } from "./nonrecursive";
+import { modelNodes, startValues, type ModelSpec } from "./model";
+
+// --- Latent variables: measurement model on top of the path model ---
+
+/** Names, indicators and structural use of the latent variables that cannot be estimated. */
+export function validateLatents(vars: VarName[], latents: Latent[], edges: Edge[]): string[] {
+  const errors: string[] = [];
+  const names = latents.map((l) => l.name.trim());
+  names.forEach((name, i) => {
+    if (!name) errors.push("Every latent variable needs a name.");
+    else if (vars.includes(name)) errors.push(`Latent variable "${name}" has the name of an observed variable.`);
+    else if (names.indexOf(name) !== i) errors.push(`Duplicate latent variable name "${name}".`);
+  });
+  const owner = new Map<VarName, VarName>();
+  for (const l of latents) {
+    if (l.reliability !== undefined) {
+      if (l.indicators.length !== 1) errors.push(`${l.name}: a reliability fixes the loading of a single indicator.`);
+    } else if (l.indicators.length < 2) errors.push(`${l.name} needs at least two indicators.`);
+    for (const x of l.indicators) {
+      if (!vars.includes(x)) errors.push(`${l.name}: unknown indicator "${x}".`);
+      else if (owner.has(x)) errors.push(`${x} is an indicator of both ${owner.get(x)} and ${l.name}.`);
+      else owner.set(x, l.name);
+    }
+  }
+  for (const e of edges) {
+    for (const v of [e.from, e.to]) {
+      if (owner.has(v)) errors.push(`${v} is an indicator of ${owner.get(v)}; connect ${owner.get(v)} instead (edge ${e.from} ${e.kind === "cov" ? "↔" : "→"} ${e.to}).`);
+    }
+  }
+  return [...new Set(errors)];
+}
+
+const clip = (x: number) => Math.max(-0.95, Math.min(0.95, x));
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+/**
+ * Rough correlations over observed and latent nodes for starting values. A loading starts at
+ * the square root of the indicator's mean absolute correlation with the other indicators of its
+ * factor (or at its fixed value); correlations involving a factor are the indicator correlations divided by the loadings
+ * (disattenuated), clipped to ±.95.
+ */
+function nodeCorrelations(vars: VarName[], cellM: CellMatrix, latents: Latent[]) {
+  const S = buildRMatrix(vars, cellM);
+  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
+  const loadings: Record<string, number> = {};
+  for (const l of latents) {
+    for (const x of l.indicators) {
+      if (l.reliability !== undefined) {
+        loadings[`${l.name}->${x}`] = Math.sqrt(l.reliability);
+        continue;
+      }
+      const others = l.indicators.filter((y) => y !== x).map((y) => Math.abs(S[idx[x]][idx[y]]));
+      loadings[`${l.name}->${x}`] = Math.sqrt(Math.max(0.05, Math.min(0.9, mean(others))));
+    }
+  }
+  const lambda = (l: Latent, x: VarName) => loadings[`${l.name}->${x}`];
+  const byName = new Map(latents.map((l) => [l.name, l]));
+  const r = (a: VarName, b: VarName): number => {
+    if (a === b) return 1;
+    const la = byName.get(a);
+    const lb = byName.get(b);
+    if (la && lb) return clip(mean(la.indicators.flatMap((x) => lb.indicators.map((y) => S[idx[x]][idx[y]] / (lambda(la, x) * lambda(lb, y))))));
+    if (la || lb) {
+      const [l, v] = la ? [la, b] : [lb!, a];
+      if (l.indicators.includes(v)) return lambda(l, v);
+      return clip(mean(l.indicators.map((x) => S[idx[x]][idx[v]] / lambda(l, x))));
+    }
+    return S[idx[a]][idx[b]];
+  };
+
+  const nodes = [...vars, ...latents.map((l) => l.name)];
+  const nodeM: CellMatrix = Object.fromEntries(nodes.map((a) => [a, Object.fromEntries(nodes.map((b) => [b, { r: r(a, b), n: Number.NaN }]))]));
+  return { nodes, cellM: nodeM, loadings };
+}
+
+/**
+ * Equation-wise estimates of the structural paths (OLS, 2SLS for feedback models), used as the
+ * coefficient template and starting values of ML and WLS. With latent variables the equations
+ * are solved on the disattenuated node correlations and the loadings get their own starts.
+ */
+export function initialEstimates(
+  spec: ModelSpec,
+  cellM: CellMatrix,
+  edges: Edge[],
+  latents: Latent[],
+  totalN: number,
+  acov?: number[][]
+): { template: Coef[]; start: number[] } {
+  const { vars } = spec;
+  const { nodes, cellM: M, loadings } = latents.length ? nodeCorrelations(vars, cellM, latents) : { nodes: vars, cellM, loadings: {} };
+  const ols = isRecursive(nodes, edges)
+    ? estimatePathsFromCorrelation(nodes, M, edges, totalN, latents.length ? undefined : acov)
+    : estimatePaths2SLS(nodes, M, edges, totalN);
+  // 2SLS can overshoot a feedback loop; an unstable start is damped to stability index .5.
+  const index = stabilityIndex(nodes, ols.coeffs);
+  const damp = index >= 1 ? 0.5 / index : 1;
+  const paths = { ...Object.fromEntries(ols.coeffs.map((c) => [`${c.from}->${c.to}`, damp * c.beta])), ...loadings };
+  return { template: ols.coeffs, start: startValues(spec, buildRMatrix(nodes, M), paths) };
+}
+
+/** Standardized loadings, AVE = mean(λ²) and CR = (Σλ)² / ((Σλ)² + Σ(1 - λ²)) per latent variable. */
+export function measurementSummary(spec: ModelSpec, theta: number[], vcov: number[][]): Measurement[] {
+  return spec.latent.map((latent) => {
+    const loadings = spec.params.flatMap((p, k) => {
+      if (p.source !== "loading" || p.from !== latent) return [];
+      if (spec.freeIndex[k] < 0) return [{ indicator: p.to, lambda: theta[k], se: Number.NaN, z: Number.NaN, p: Number.NaN, fixed: true }];
+      const se = Math.sqrt(vcov[k][k]);
+      const z = Math.abs(theta[k] / se);
+      return [{ indicator: p.to, lambda: theta[k], se, z, p: normalPValue(z) }];
+    });
+    const sum = loadings.reduce((s, l) => s + l.lambda, 0);
+    const unique = loadings.reduce((s, l) => s + 1 - l.lambda ** 2, 0);
+    return {
+      latent,
+      loadings,
+      ave: loadings.reduce((s, l) => s + l.lambda ** 2, 0) / loadings.length,
+      cr: sum ** 2 / (sum ** 2 + unique),
+    };
+  });
+}
+
+/** Moment counts of a model with latent variables: observed variances are free, factor variances fixed at 1. */
+export function countLatentDF(spec: ModelSpec) {
+  const p = spec.vars.length;
+  const observedMoments = (p * (p + 1)) / 2;
+  const freeParams = spec.nFree + p;
+  const structural = new Set(spec.params.filter((x) => x.kind === "path" && x.source === "edge").map((x) => x.to));
+  return {
+    df: Math.max(0, observedMoments - freeParams),
+    df0: (p * (p - 1)) / 2,
+    observedMoments,
+    freeParams,
+    endoCount: modelNodes(spec).filter((v) => structural.has(v)).length,
+  };
+}
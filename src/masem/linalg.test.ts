@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { cholesky, conditionNumber, isPositiveDefinite, logDet, spdInverse, symmetricEigen } from "./linalg";
+import { matMul } from "./matrix";
+
+const A = [
+  [4, 2, 0.6, -1],
+  [2, 5, 1, 0.5],
+  [0.6, 1, 3, 0.2],
+  [-1, 0.5, 0.2, 2],
+];
+
+const expectIdentity = (M: number[][]) => M.forEach((row, i) => row.forEach((x, j) => expect(x).toBeCloseTo(i === j ? 1 : 0, 12)));
+
+describe("cholesky", () => {
+  it("factors a positive definite matrix", () => {
+    const L = cholesky([
+      [4, 2],
+      [2, 3],
+    ]);
+    expect(L[0]).toEqual([2, 0]);
+    expect(L[1][0]).toBe(1);
+    expect(L[1][1]).toBeCloseTo(Math.SQRT2, 14);
+  });
+
+  it("refuses a matrix that is not positive definite", () => {
+    const B = [
+      [1, 2],
+      [2, 1],
+    ];
+    expect(() => cholesky(B)).toThrow();
+    expect(isPositiveDefinite(B)).toBe(false);
+    expect(isPositiveDefinite(A)).toBe(true);
+  });
+});
+
+describe("logDet and spdInverse", () => {
+  it("match the determinant and inverse", () => {
+    expect(logDet([
+      [4, 2],
+      [2, 3],
+    ])).toBeCloseTo(Math.log(8), 14);
+    expectIdentity(matMul(A, spdInverse(A)));
+  });
+});
+
+describe("symmetricEigen", () => {
+  it("finds the eigenvalues of a 2 × 2 correlation matrix", () => {
+    const { values, vectors } = symmetricEigen([
+      [1, 0.6],
+      [0.6, 1],
+    ]);
+    expect(values[0]).toBeCloseTo(1.6, 12);
+    expect(values[1]).toBeCloseTo(0.4, 12);
+    expect(Math.abs(vectors[0][0])).toBeCloseTo(Math.SQRT1_2, 12);
+  });
+
+  it("returns sorted eigenpairs with orthonormal vectors", () => {
+    const { values, vectors } = symmetricEigen(A);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+    expect(values.reduce((s, x) => s + x, 0)).toBeCloseTo(14, 12);
+    values.forEach((l, k) => {
+      const v = vectors.map((row) => row[k]);
+      A.forEach((row, i) => expect(row.reduce((s, x, j) => s + x * v[j], 0)).toBeCloseTo(l * v[i], 10));
+    });
+    const Vt = vectors[0].map((_, k) => vectors.map((row) => row[k]));
+    expectIdentity(matMul(Vt, vectors));
+    expect(values.reduce((s, x) => s + Math.log(x), 0)).toBeCloseTo(logDet(A), 10);
+  });
+});
+
+describe("conditionNumber", () => {
+  it("is the ratio of the extreme eigenvalues, infinite unless positive definite", () => {
+    expect(conditionNumber([1.6, 0.4])).toBeCloseTo(4, 14);
+    expect(conditionNumber([2, 0])).toBe(Number.POSITIVE_INFINITY);
+  });
+});
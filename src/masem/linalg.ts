@@ -0,0 +1,121 @@
+import { matClone, matIdentity } from "./matrix";
+
+// --- Symmetric Linear Algebra ---
+// Factorisations for the covariance-type matrices of the fitting functions. Determinants are
+// taken on the log scale so that they neither underflow nor overflow in larger models.
+
+/** Lower-triangular L with L L' = A; throws if A is not positive definite. */
+export function cholesky(A: number[][]): number[][] {
+  const n = A.length;
+  const L = Array.from({ length: n }, () => Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let s = A[i][j];
+      for (let k = 0; k < j; k++) s -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (!(s > 0)) throw new Error("Matrix is not positive definite.");
+        L[i][i] = Math.sqrt(s);
+      } else L[i][j] = s / L[j][j];
+    }
+  }
+  return L;
+}
+
+export function isPositiveDefinite(A: number[][]): boolean {
+  try {
+    cholesky(A);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** log|A| = 2 Σ log L_ii from the Cholesky factor. */
+export function choleskyLogDet(L: number[][]): number {
+  return 2 * L.reduce((s, row, i) => s + Math.log(row[i]), 0);
+}
+
+/** A^-1 from the Cholesky factor of A, by forward and back substitution on each unit vector. */
+export function choleskyInverse(L: number[][]): number[][] {
+  const n = L.length;
+  const inv = Array.from({ length: n }, () => Array(n).fill(0));
+  for (let c = 0; c < n; c++) {
+    const y = Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      let s = i === c ? 1 : 0;
+      for (let k = 0; k < i; k++) s -= L[i][k] * y[k];
+      y[i] = s / L[i][i];
+    }
+    for (let i = n - 1; i >= 0; i--) {
+      let s = y[i];
+      for (let k = i + 1; k < n; k++) s -= L[k][i] * inv[k][c];
+      inv[i][c] = s / L[i][i];
+    }
+  }
+  return inv;
+}
+
+/** log|A| of a positive definite matrix; throws otherwise. */
+export function logDet(A: number[][]): number {
+  return choleskyLogDet(cholesky(A));
+}
+
+/** Inverse of a positive definite matrix; throws otherwise. */
+export function spdInverse(A: number[][]): number[][] {
+  return choleskyInverse(cholesky(A));
+}
+
+/**
+ * Eigen decomposition of a symmetric matrix by cyclic Jacobi rotations. Eigenvalues are sorted
+ * in decreasing order; column k of `vectors` is the unit eigenvector of values[k].
+ */
+export function symmetricEigen(A: number[][]): { values: number[]; vectors: number[][] } {
+  const n = A.length;
+  const a = matClone(A);
+  const V = matIdentity(n);
+  const norm = A.flat().reduce((s, x) => s + x * x, 0);
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) off += a[i][j] * a[i][j];
+    if (!(off > 1e-24 * norm)) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = a.map((_, i) => i).sort((x, y) => a[y][y] - a[x][x]);
+  return { values: order.map((i) => a[i][i]), vectors: V.map((row) => order.map((i) => row[i])) };
+}
+
+/**
+ * Condition number λmax / λmin from the eigenvalues of a symmetric matrix (as returned by
+ * symmetricEigen, so callers that need the eigenvalues anyway decompose once); Infinity unless
+ * the matrix is positive definite.
+ */
+export function conditionNumber(values: number[]): number {
+  const min = Math.min(...values);
+  return min > 1e-10 ? Math.max(...values) / min : Number.POSITIVE_INFINITY;
+}
@@ -0,0 +1,72 @@
+// --- Matrix Algebra ---
+
+export function matIdentity(n: number): number[][] {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+export function matClone(A: number[][]): number[][] {
+  return A.map((r) => r.slice());
+}
+export function transpose(A: number[][]): number[][] {
+  return A[0].map((_, j) => A.map((row) => row[j]));
+}
+export function matMul(A: number[][], B: number[][]): number[][] {
+  const n = A.length,
+    m = B[0].length,
+    k = B.length;
+  const out = Array.from({ length: n }, () => Array(m).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      let s = 0;
+      for (let t = 0; t < k; t++) s += A[i][t] * B[t][j];
+      out[i][j] = s;
+    }
+  }
+  return out;
+}
+export function matVecMul(A: number[][], v: number[]): number[] {
+  return A.map((row) => row.reduce((s, x, i) => s + x * v[i], 0));
+}
+export function vecDot(a: number[], b: number[]): number {
+  return a.reduce((s, x, i) => s + x * b[i], 0);
+}
+
+/** Gauss–Jordan inverse with partial pivoting; pivots below 1e-12 of the largest entry count as zero. */
+export function matInverse(A: number[][]): number[][] {
+  const n = A.length;
+  const M = matClone(A);
+  const I = matIdentity(n);
+  const tol = 1e-12 * Math.max(0, ...A.flat().map(Math.abs));
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col;
+    for (let r = col; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivotRow][col])) pivotRow = r;
+    }
+    if (!(Math.abs(M[pivotRow][col]) > tol)) {
+      throw new Error("Matrix is singular (cannot invert). Consider removing/adjusting variables or paths.");
+    }
+
+    [M[col], M[pivotRow]] = [M[pivotRow], M[col]];
+    [I[col], I[pivotRow]] = [I[pivotRow], I[col]];
+
+    const piv = M[col][col];
+    for (let j = 0; j < n; j++) {
+      M[col][j] /= piv;
+      I[col][j] /= piv;
+    }
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = M[r][col];
+      for (let j = 0; j < n; j++) {
+        M[r][j] -= factor * M[col][j];
+        I[r][j] -= factor * I[col][j];
+      }
+    }
+  }
+  return I;
+}
+
+export function matTrace(A: number[][]): number {
+  return A.reduce((s, row, i) => s + row[i], 0);
+}
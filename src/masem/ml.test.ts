@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Edge, Estimator, EstResult } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { estimateModel } from "./run";
+import { modificationIndices } from "./ml";
+
+const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X,M,Y,W
+X,1
+M,.40|500,1
+Y,.35|500,.50|500,1
+W,.20|500,.30|500,.25|500,1
+`);
+
+const path = (from: string, to: string): Edge => ({ kind: "path", from, to });
+
+function estimate(edges: Edge[], estimator: Estimator): EstResult {
+  const out = estimateModel({ vars, cellM: cellMatrix, edges, estimator, nMethod: "harmonic" });
+  if (!out.ok) throw new Error(out.errors.join(" "));
+  return out.result;
+}
+
+const beta = (res: EstResult, from: string, to: string) => res.coeffs.find((c) => c.from === from && c.to === to)!.beta;
+
+describe("estimatePathsML", () => {
+  // X, M and W predict Y and X predicts M: saturated apart from the free exogenous covariances.
+  const saturated = [path("X", "M"), path("W", "M"), path("X", "Y"), path("M", "Y"), path("W", "Y")];
+
+  it("agrees with WLS and OLS on a just-identified model", () => {
+    const ml = estimate(saturated, "ML");
+    const wls = estimate(saturated, "WLS");
+    const ols = estimate(saturated, "OLS");
+    expect(ml.fit.df).toBe(0);
+    expect(ml.fit.chi2).toBeUndefined();
+    for (const e of saturated) {
+      expect(beta(ml, e.from, e.to)).toBeCloseTo(beta(ols, e.from, e.to), 6);
+      expect(beta(wls, e.from, e.to)).toBeCloseTo(beta(ols, e.from, e.to), 6);
+    }
+    // OLS by hand: M on X and W.
+    const bX = (0.4 - 0.3 * 0.2) / (1 - 0.2 * 0.2);
+    expect(beta(ols, "X", "M")).toBeCloseTo(bX, 10);
+    expect(ml.r2.M).toBeCloseTo(ols.r2.M, 6);
+  });
+
+  it("reproduces the sample matrix with a zero discrepancy when saturated", () => {
+    const ml = estimate(saturated, "ML");
+    expect(ml.fit.SRMR).toBeLessThan(1e-6);
+  });
+});
+
+describe("modificationIndices", () => {
+  const restricted = [path("X", "M"), path("M", "Y"), path("W", "Y")];
+
+  it("approximates the chi-square difference when the path is freed and refitted", () => {
+    const mis = modificationIndices(vars, cellMatrix, restricted, 500);
+    const mi = mis.find((m) => m.kind === "path" && m.from === "X" && m.to === "Y")!;
+    const before = estimate(restricted, "ML");
+    const after = estimate([...restricted, path("X", "Y")], "ML");
+    const dChi2 = before.fit.chi2! - after.fit.chi2!;
+    expect(mi.mi).toBeGreaterThan(3.84);
+    expect(Math.abs(mi.mi - dChi2) / dChi2).toBeLessThan(0.1);
+    // The expected change is close to the estimate the path gets when freed.
+    expect(mi.epc).toBeCloseTo(beta(after, "X", "Y"), 1);
+  });
+
+  it("refuses models with latent variables", () => {
+    expect(() => modificationIndices(vars, cellMatrix, restricted, 500, [{ name: "F", indicators: ["X", "M", "W"] }])).toThrow(/observed-variable/);
+  });
+});
+
+describe("residual covariances", () => {
+  // Without W, X -> M, X -> Y and M <-> Y is saturated.
+  const three = parseCombinedMatrixText(",X,M,Y\nX,1\nM,.40|500,1\nY,.35|500,.50|500,1");
+  const cov = (from: string, to: string): Edge => ({ kind: "cov", from, to });
+  const forked = [path("X", "M"), path("X", "Y")];
+  const fit = (edges: Edge[], estimator: Estimator) => estimateModel({ vars: three.vars, cellM: three.cellMatrix, edges, estimator, nMethod: "harmonic" });
+  const estimate3 = (edges: Edge[], estimator: Estimator) => {
+    const out = fit(edges, estimator);
+    if (!out.ok) throw new Error(out.errors.join(" "));
+    return out.result;
+  };
+
+  it("absorb the association the paths leave unexplained", () => {
+    const without = estimate3(forked, "ML");
+    const withCov = estimate3([...forked, cov("M", "Y")], "ML");
+    expect(without.fit.df).toBe(1);
+    expect(withCov.fit.df).toBe(0);
+    expect(withCov.fit.SRMR).toBeLessThan(1e-6);
+    // Residual covariance of M and Y: r_MY - r_XM r_XY.
+    const c = withCov.coeffs.find((k) => k.kind === "cov" && k.from === "M" && k.to === "Y")!;
+    expect(c.beta).toBeCloseTo(0.5 - 0.4 * 0.35, 6);
+    expect(c.p).toBeLessThan(0.001);
+    expect(beta(withCov, "X", "M")).toBeCloseTo(0.4, 6);
+    const wls = estimate3([...forked, cov("M", "Y")], "WLS");
+    expect(wls.coeffs.find((k) => k.kind === "cov")!.beta).toBeCloseTo(c.beta, 6);
+  });
+
+  it("need ML or WLS", () => {
+    const out = fit([...forked, cov("M", "Y")], "OLS");
+    expect(out.ok).toBe(false);
+    if (!out.ok) expect(out.errors).toContain("Residual covariances can only be estimated with ML or WLS.");
+  });
+});
@@ -0,0 +1,265 @@
+import type { CellMatrix, Coef, Edge, EdgeKind, Latent, ReliabilityCorrection, VarName } from "./types";
+import { buildRMatrix } from "./cells";
+import { fitML } from "./estimation";
+import { initialEstimates } from "./latent";
+import { disattenuate } from "./reliability";
+import { cholesky, choleskyInverse, choleskyLogDet, logDet, spdInverse } from "./linalg";
+import { matInverse, matMul, matTrace } from "./matrix";
+import {
+  buildModelSpec,
+  coeffsFromTheta,
+  coeffVcov,
+  expandTheta,
+  expandVcov,
+  freeStart,
+  impliedCorrelation,
+  numericJacobian,
+  residualSummary,
+  type ModelParam,
+  type ModelSpec,
+} from "./model";
+
+// --- Full-information ML ---
+
+export type MLResult = {
+  theta: number[]; // one value per spec param
+  vcov: number[][];
+  free: number[]; // the estimated free vector
+  vcovFree: number[][];
+  Sigma: number[][];
+  Psi: number[][];
+  Fmin: number;
+  chi2: number; // (N - 1) * minimized F_ML
+  chi2_0: number;
+  iterations: number;
+};
+
+export function discrepancyML(S: number[][], Sigma: number[][], logDetS: number): number {
+  let L: number[][];
+  try {
+    L = cholesky(Sigma);
+  } catch {
+    return Number.NaN;
+  }
+  return choleskyLogDet(L) + matTrace(matMul(S, choleskyInverse(L))) - logDetS - S.length;
+}
+
+/**
+ * Implied covariance D P(theta) D with free scale factors D (Cudeck, 1989). Fitting a
+ * correlation matrix as if it were a covariance matrix then yields correct standard errors
+ * for the standardized parameters; at the optimum D = I.
+ */
+export function scaledSigma(spec: ModelSpec, full: number[]): number[][] {
+  const q = spec.nFree;
+  const d = full.slice(q);
+  const P = impliedCorrelation(spec, expandTheta(spec, full.slice(0, q))).Sigma;
+  return P.map((row, i) => row.map((x, j) => d[i] * x * d[j]));
+}
+
+/** dSigma/dtheta_k for every parameter, as p x p matrices. */
+export function sigmaDerivatives(spec: ModelSpec, full: number[]): number[][][] {
+  const p = spec.vars.length;
+  const J = numericJacobian((th) => scaledSigma(spec, th).flat(), full);
+  return full.map((_, k) => Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) => J[i * p + j][k])));
+}
+
+/** Expected information per unit of (N - 1)/2: H_kl = tr(Sigma^-1 dSigma_k Sigma^-1 dSigma_l). */
+export function expectedInformation(SigInv: number[][], dSig: number[][][]): number[][] {
+  const A = dSig.map((D) => matMul(SigInv, D));
+  return A.map((Ak) => A.map((Al) => matTrace(matMul(Ak, Al))));
+}
+
+/**
+ * Starting values (with scale factors) at which F_ML is finite. OLS/2SLS paths combined with
+ * sample or fixed covariances can imply a matrix that is not positive definite; the edge and
+ * exogenous parameters are then shrunk toward 0 until it is. Loadings are kept so that the
+ * factors stay identified, and parameters in `fixed` are never moved.
+ */
+function admissibleStart(spec: ModelSpec, start: number[], fixed: number[], F: (th: number[]) => number): number[] {
+  const loading = new Set(spec.params.map((prm, k) => (prm.source === "loading" ? spec.freeIndex[k] : -1)));
+  const scales = spec.vars.map(() => 1);
+  for (const shrink of [1, 0.5, 0.25, 0.1, 0]) {
+    const theta = [...start.map((x, f) => (loading.has(f) || fixed.includes(f) ? x : shrink * x)), ...scales];
+    if (Number.isFinite(F(theta))) return theta;
+  }
+  throw new Error("ML starting values give a non positive definite implied matrix.");
+}
+
+/**
+ * Fisher scoring on F_ML = log|Sigma| + tr(S Sigma^-1) - log|S| - p over the free vector
+ * (`start` has spec.nFree entries). Free parameters listed in `fixed` stay at their starting
+ * values (used for profile likelihoods).
+ */
+export function fitMLModel(spec: ModelSpec, S: number[][], N: number, start: number[], fixed: number[] = []): MLResult {
+  let logDetS: number;
+  try {
+    logDetS = logDet(S);
+  } catch {
+    throw new Error("Observed correlation matrix is not positive definite. Check the correlations or repair the matrix in step 1.");
+  }
+  const F = (th: number[]) => {
+    try {
+      return discrepancyML(S, scaledSigma(spec, th), logDetS);
+    } catch {
+      return Number.NaN;
+    }
+  };
+
+  const q = spec.nFree;
+  let theta = admissibleStart(spec, start, fixed, F);
+  const active = theta.map((_, k) => k).filter((k) => !fixed.includes(k));
+  let f = F(theta);
+
+  let iterations = 0;
+  for (; iterations < 200; iterations++) {
+    const Sigma = scaledSigma(spec, theta);
+    const SigInv = spdInverse(Sigma);
+    const dSig = sigmaDerivatives(spec, theta);
+    const H = expectedInformation(SigInv, dSig);
+    const R = matMul(matMul(SigInv, Sigma.map((row, i) => row.map((x, j) => x - S[i][j]))), SigInv);
+    const g = dSig.map((D) => matTrace(matMul(R, D)));
+    const Hinv = matInverse(active.map((a) => active.map((b) => H[a][b])));
+    const step = theta.map(() => 0);
+    active.forEach((a, i) => (step[a] = -Hinv[i].reduce((s, x, l) => s + x * g[active[l]], 0)));
+
+    let lambda = 1;
+    let next = theta.map((x, k) => x + step[k]);
+    let fNext = F(next);
+    for (let h = 0; h < 30 && !(Number.isFinite(fNext) && fNext <= f + 1e-12); h++) {
+      lambda /= 2;
+      next = theta.map((x, k) => x + lambda * step[k]);
+      fNext = F(next);
+    }
+    if (!Number.isFinite(fNext)) throw new Error("ML estimation failed to converge. Check the model or correlations.");
+    const maxStep = Math.max(0, ...step.map((x) => Math.abs(lambda * x)));
+    theta = next;
+    f = fNext;
+    if (maxStep < 1e-9) break;
+  }
+
+  const H = expectedInformation(spdInverse(scaledSigma(spec, theta)), sigmaDerivatives(spec, theta));
+  const vcovFree = matInverse(H)
+    .slice(0, q)
+    .map((row) => row.slice(0, q).map((x) => (2 * x) / (N - 1)));
+  const free = theta.slice(0, q);
+  const { Sigma, Psi } = impliedCorrelation(spec, expandTheta(spec, free));
+  const { chi2_0 } = fitML(S, Sigma, N);
+
+  return {
+    theta: expandTheta(spec, free),
+    vcov: expandVcov(spec, vcovFree),
+    free,
+    vcovFree,
+    Sigma,
+    Psi,
+    Fmin: f,
+    chi2: (N - 1) * f,
+    chi2_0,
+    iterations,
+  };
+}
+
+/**
+ * ML estimates of all paths and exogenous correlations jointly. OLS estimates (2SLS for
+ * feedback models) supply the starting values. Latent variables add their loadings to the
+ * model; structural edges may then run between latent and observed variables.
+ */
+export function estimatePathsML(
+  vars: VarName[],
+  cellM: CellMatrix,
+  edges: Edge[],
+  totalN: number,
+  latents: Latent[] = []
+): {
+  coeffs: Coef[];
+  r2: Record<VarName, number>;
+  resid: Record<VarName, number>;
+  vcov: number[][];
+  ml: MLResult;
+  spec: ModelSpec;
+} {
+  const S = buildRMatrix(vars, cellM);
+  const spec = buildModelSpec(vars, edges, latents);
+  const { template, start } = initialEstimates(spec, cellM, edges, latents, totalN);
+  const ml = fitMLModel(spec, S, totalN, freeStart(spec, start));
+
+  const coeffs = coeffsFromTheta(spec, ml.theta, ml.vcov, template);
+  const { r2, resid } = residualSummary(spec, ml.Psi);
+  return { coeffs, r2, resid, vcov: coeffVcov(spec, ml.vcov, coeffs), ml, spec };
+}
+
+// --- Modification indices ---
+
+export type ModIndex = { kind: EdgeKind; from: VarName; to: VarName; mi: number; epc: number };
+
+/**
+ * Lagrange-multiplier modification indices and expected parameter changes for every absent
+ * path into an endogenous variable and every absent residual covariance between endogenous
+ * variables. All candidates are added at zero to one augmented model so the ML information
+ * matrix is computed once; each MI then uses the information of its candidate after
+ * partialling out the free parameters: MI = (N - 1)/2 * g_c^2 / H_c.f, EPC = -g_c / H_c.f.
+ * The model must be the one that was estimated: disattenuated correlations are used when the
+ * reliabilities corrected them, and models with latent variables are refused.
+ */
+export function modificationIndices(
+  vars: VarName[],
+  observedM: CellMatrix,
+  edges: Edge[],
+  totalN: number,
+  latents: Latent[] = [],
+  reliability?: { alpha: Record<VarName, number>; mode: ReliabilityCorrection }
+): ModIndex[] {
+  if (latents.length || reliability?.mode === "single-indicator") {
+    throw new Error("Modification indices cover observed-variable models only; they are not available with latent variables or single-indicator reliability corrections.");
+  }
+  const cellM = reliability ? disattenuate(vars, observedM, reliability.alpha).cellM : observedM;
+  const S = buildRMatrix(vars, cellM);
+  const { ml, spec } = estimatePathsML(vars, cellM, edges, totalN);
+  const endo = vars.filter((v) => spec.endogenous.has(v));
+  const has = (kind: EdgeKind, a: VarName, b: VarName) =>
+    spec.params.some((p) => p.kind === kind && ((p.from === a && p.to === b) || (kind === "cov" && p.from === b && p.to === a)));
+
+  const candidates: ModelParam[] = [];
+  for (const to of endo) {
+    for (const from of vars) if (from !== to && !has("path", from, to)) candidates.push({ kind: "path", from, to, source: "edge" });
+  }
+  for (let i = 0; i < endo.length; i++) {
+    for (let j = i + 1; j < endo.length; j++) {
+      const [a, b] = [endo[i], endo[j]];
+      if (!has("cov", a, b) && !has("path", a, b) && !has("path", b, a)) candidates.push({ kind: "cov", from: a, to: b, source: "edge" });
+    }
+  }
+  if (!candidates.length) return [];
+
+  const q = spec.nFree;
+  const aug: ModelSpec = {
+    ...spec,
+    params: [...spec.params, ...candidates],
+    freeIndex: [...spec.freeIndex, ...candidates.map((_, i) => q + i)],
+    nFree: q + candidates.length,
+  };
+  const full = [...ml.free, ...candidates.map(() => 0), ...vars.map(() => 1)];
+  const Sigma = scaledSigma(aug, full);
+  const SigInv = spdInverse(Sigma);
+  const dSig = sigmaDerivatives(aug, full);
+  const H = expectedInformation(SigInv, dSig);
+  const R = matMul(matMul(SigInv, Sigma.map((row, i) => row.map((x, j) => x - S[i][j]))), SigInv);
+
+  const free = full.map((_, k) => k).filter((k) => k < q || k >= q + candidates.length);
+  const HffInv = matInverse(free.map((a) => free.map((b) => H[a][b])));
+
+  return candidates.map((c, i) => {
+    const k = q + i;
+    const g = matTrace(matMul(R, dSig[k]));
+    const hcf = free.map((a) => H[k][a]);
+    const partial = H[k][k] - hcf.reduce((s, x, a) => s + x * hcf.reduce((t, y, b) => t + HffInv[a][b] * y, 0), 0);
+    const ok = partial > 1e-10;
+    return {
+      kind: c.kind,
+      from: c.from,
+      to: c.to,
+      mi: ok ? ((totalN - 1) / 2) * (g * g) / partial : Number.NaN,
+      epc: ok ? -g / partial : Number.NaN,
+    };
+  });
+}
@@ -0,0 +1,237 @@
+import type { Coef, Edge, EdgeKind, Latent, VarName } from "./types";
+import { normalPValue } from "./distributions";
+import { covEdges, pathEdges } from "./estimation";
+import { feedbackBlocks } from "./nonrecursive";
+import { matIdentity, matInverse, matMul, transpose } from "./matrix";
+
+// --- Correlation-structure path model ---
+// Sigma = (I - B)^-1 Psi (I - B)^-T with diag(Sigma) fixed to 1. Free parameters are the
+// path coefficients, the exogenous correlations and any residual covariances drawn as edges;
+// the diagonal of Psi (residual variances of endogenous variables, unit variances of exogenous
+// ones) follows from the diagonal constraint.
+// theta holds one value per entry of `params`; the estimators work on the shorter vector of
+// free parameters, where edges sharing a label map to one entry and fixed edges to none.
+// Latent variables are extra nodes after the observed ones, with the same unit diagonal; their
+// loadings are paths into the indicators and Sigma is the observed block of the node matrix.
+
+// "edge" parameters come from the diagram; "exogenous" correlations are always free;
+// "loading" paths run from a latent variable to its indicators.
+export type ModelParam = {
+  kind: EdgeKind;
+  from: VarName;
+  to: VarName;
+  source: "edge" | "exogenous" | "loading";
+  label?: string;
+  fixed?: number;
+};
+
+export type ModelSpec = {
+  vars: VarName[]; // observed
+  latent: VarName[];
+  params: ModelParam[];
+  endogenous: Set<VarName>;
+  freeIndex: number[]; // per param: index into the free vector, -1 when fixed
+  nFree: number;
+};
+
+function indexFreeParams(params: ModelParam[]): { freeIndex: number[]; nFree: number } {
+  const byLabel = new Map<string, number>();
+  let nFree = 0;
+  const freeIndex = params.map((p) => {
+    if (p.fixed !== undefined) return -1;
+    if (!p.label) return nFree++;
+    if (!byLabel.has(p.label)) byLabel.set(p.label, nFree++);
+    return byLabel.get(p.label)!;
+  });
+  return { freeIndex, nFree };
+}
+
+/** Observed variables followed by the latent ones. */
+export function modelNodes(spec: ModelSpec): VarName[] {
+  return [...spec.vars, ...spec.latent];
+}
+
+export function buildModelSpec(vars: VarName[], edges: Edge[], latents: Latent[] = []): ModelSpec {
+  const loadings: ModelParam[] = latents.flatMap((l) =>
+    l.indicators.map((x) => ({
+      kind: "path" as const,
+      from: l.name,
+      to: x,
+      source: "loading" as const,
+      fixed: l.reliability !== undefined ? Math.sqrt(l.reliability) : undefined,
+    }))
+  );
+  const endogenous = new Set([...pathEdges(edges).map((e) => e.to), ...loadings.map((p) => p.to)]);
+  const params: ModelParam[] = pathEdges(edges).map((e) => ({ kind: "path", from: e.from, to: e.to, source: "edge", label: e.label, fixed: e.fixed }));
+  params.push(...loadings);
+  const latent = latents.map((l) => l.name);
+  const exo = [...vars, ...latent].filter((v) => !endogenous.has(v));
+  for (let i = 0; i < exo.length; i++) {
+    for (let j = i + 1; j < exo.length; j++) params.push({ kind: "cov", from: exo[i], to: exo[j], source: "exogenous" });
+  }
+  for (const e of covEdges(edges)) {
+    const k = params.findIndex((p) => p.kind === "cov" && ((p.from === e.from && p.to === e.to) || (p.from === e.to && p.to === e.from)));
+    const constraint = { label: e.label, fixed: e.fixed };
+    if (k >= 0) params[k] = { ...params[k], source: "edge", ...constraint };
+    else params.push({ kind: "cov", from: e.from, to: e.to, source: "edge", ...constraint });
+  }
+  return { vars, latent, params, endogenous, ...indexFreeParams(params) };
+}
+
+/** Full theta (one value per param) from the free vector. */
+export function expandTheta(spec: ModelSpec, free: number[]): number[] {
+  return spec.params.map((p, k) => (spec.freeIndex[k] >= 0 ? free[spec.freeIndex[k]] : p.fixed!));
+}
+
+/** Covariance of the full theta from that of the free vector; fixed params get zero rows. */
+export function expandVcov(spec: ModelSpec, V: number[][]): number[][] {
+  const f = spec.freeIndex;
+  return f.map((a) => f.map((b) => (a >= 0 && b >= 0 ? V[a][b] : 0)));
+}
+
+/** Free vector from a full theta, averaging over params that share a label. */
+export function freeStart(spec: ModelSpec, theta: number[]): number[] {
+  const sum = Array(spec.nFree).fill(0);
+  const count = Array(spec.nFree).fill(0);
+  spec.freeIndex.forEach((f, k) => {
+    if (f < 0) return;
+    sum[f] += theta[k];
+    count[f]++;
+  });
+  return sum.map((s, f) => s / count[f]);
+}
+
+/** Covariance edges that cannot be estimated: exogenous–endogenous pairs and bow patterns. */
+export function validateCovEdges(vars: VarName[], edges: Edge[]): string[] {
+  const errors: string[] = [];
+  const endogenous = new Set(pathEdges(edges).map((e) => e.to));
+  const blocks = feedbackBlocks(vars, edges);
+  for (const e of covEdges(edges)) {
+    const a = endogenous.has(e.from);
+    const b = endogenous.has(e.to);
+    if (a !== b) {
+      errors.push(`Covariance ${e.from} ↔ ${e.to} links an exogenous and an endogenous variable. Only residual covariances between endogenous variables can be freed.`);
+      continue;
+    }
+    const direct = pathEdges(edges).some((p) => (p.from === e.from && p.to === e.to) || (p.from === e.to && p.to === e.from));
+    const inLoop = blocks.some((blk) => blk.includes(e.from) && blk.includes(e.to));
+    if (direct && !inLoop) {
+      errors.push(`Covariance ${e.from} ↔ ${e.to} is not identified together with the direct path between them (bow pattern).`);
+    }
+  }
+  return errors;
+}
+
+/** `S` holds (approximate) correlations over modelNodes(spec); `paths` may include loadings. */
+export function startValues(spec: ModelSpec, S: number[][], paths: Record<string, number>): number[] {
+  const idx: Record<VarName, number> = Object.fromEntries(modelNodes(spec).map((v, i) => [v, i]));
+  return spec.params.map((p) => {
+    if (p.fixed !== undefined) return p.fixed;
+    if (p.kind === "path") return paths[`${p.from}->${p.to}`] ?? 0;
+    return spec.endogenous.has(p.from) ? 0 : S[idx[p.from]][idx[p.to]];
+  });
+}
+
+export function impliedCorrelation(
+  spec: ModelSpec,
+  theta: number[]
+): { Sigma: number[][]; B: number[][]; Psi: number[][] } {
+  const nodes = modelNodes(spec);
+  const p = nodes.length;
+  const idx: Record<VarName, number> = Object.fromEntries(nodes.map((v, i) => [v, i]));
+  const B = Array.from({ length: p }, () => Array(p).fill(0));
+  const Psi = Array.from({ length: p }, () => Array(p).fill(0));
+
+  spec.params.forEach((prm, k) => {
+    const i = idx[prm.to];
+    const j = idx[prm.from];
+    if (prm.kind === "path") B[i][j] = theta[k];
+    else {
+      Psi[i][j] = theta[k];
+      Psi[j][i] = theta[k];
+    }
+  });
+
+  const I = matIdentity(p);
+  const T = matInverse(I.map((row, i) => row.map((x, j) => x - B[i][j])));
+
+  // diag(T Psi T') = 1 is linear in diag(Psi): (T o T) psi = 1 - c.
+  const M = T.map((row) => row.map((x) => x * x));
+  const rhs = T.map((row) => {
+    let c = 0;
+    for (let k = 0; k < p; k++) {
+      for (let l = 0; l < p; l++) if (k !== l) c += row[k] * row[l] * Psi[k][l];
+    }
+    return 1 - c;
+  });
+  const Minv = matInverse(M);
+  for (let i = 0; i < p; i++) Psi[i][i] = Minv[i].reduce((s, x, k) => s + x * rhs[k], 0);
+
+  const full = matMul(matMul(T, Psi), transpose(T));
+  const m = spec.vars.length;
+  const Sigma = m < p ? full.slice(0, m).map((row) => row.slice(0, m)) : full;
+  return { Sigma, B, Psi };
+}
+
+/** Central-difference Jacobian of f at theta (rows: outputs, columns: parameters). */
+export function numericJacobian(f: (theta: number[]) => number[], theta: number[], h = 1e-6): number[][] {
+  const cols = theta.map((_, k) => {
+    const up = theta.slice();
+    const dn = theta.slice();
+    up[k] += h;
+    dn[k] -= h;
+    const fu = f(up);
+    const fd = f(dn);
+    return fu.map((x, i) => (x - fd[i]) / (2 * h));
+  });
+  const m = cols.length ? cols[0].length : f(theta).length;
+  return Array.from({ length: m }, (_, i) => cols.map((c) => c[i]));
+}
+
+/**
+ * Replaces the OLS values in `template` with the model estimates and their standard errors,
+ * and appends the covariance edges.
+ */
+export function coeffsFromTheta(spec: ModelSpec, theta: number[], vcov: number[][], template: Coef[]): Coef[] {
+  const stats = (k: number) => {
+    const beta = theta[k];
+    const { label } = spec.params[k];
+    if (spec.freeIndex[k] < 0) return { beta, se: Number.NaN, t: Number.NaN, p: Number.NaN, label, fixed: true };
+    const se = Math.sqrt(vcov[k][k]);
+    const t = Math.abs(beta / se);
+    return { beta, se, t, p: normalPValue(t), label, fixed: undefined };
+  };
+  const paths = template.map((c) => {
+    const k = spec.params.findIndex((p) => p.kind === "path" && p.from === c.from && p.to === c.to);
+    return { ...c, ...stats(k), df: undefined };
+  });
+  const covs: Coef[] = [];
+  spec.params.forEach((p, k) => {
+    if (p.kind === "cov" && p.source === "edge") covs.push({ kind: "cov", from: p.from, to: p.to, ...stats(k), vif: Number.NaN });
+  });
+  return [...paths, ...covs];
+}
+
+/** Sampling covariance of `coeffs` (as returned by coeffsFromTheta) taken from the parameter covariance. */
+export function coeffVcov(spec: ModelSpec, vcov: number[][], coeffs: Coef[]): number[][] {
+  const index = coeffs.map((c) =>
+    spec.params.findIndex((p) => p.kind === c.kind && p.from === c.from && p.to === c.to)
+  );
+  return index.map((a) => index.map((b) => vcov[a][b]));
+}
+
+/**
+ * R² and residual variances of the endogenous variables (observed or latent) from the diagonal
+ * of Psi. Indicators that only load on a latent variable are left to the measurement summary.
+ */
+export function residualSummary(spec: ModelSpec, Psi: number[][]) {
+  const r2: Record<VarName, number> = {};
+  const resid: Record<VarName, number> = {};
+  const structural = new Set(spec.params.filter((p) => p.kind === "path" && p.source !== "loading").map((p) => p.to));
+  modelNodes(spec).forEach((v, i) => {
+    if (!structural.has(v)) return;
+    resid[v] = Psi[i][i];
+    r2[v] = 1 - Psi[i][i];
+  });
+  return { r2, resid };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { estimateModel } from "./run";
+import { estimateMultiGroup, type GroupData } from "./multigroup";
+
+function group(name: string, text: string): GroupData {
+  return { name, cellM: parseCombinedMatrixText(text).cellMatrix };
+}
+
+const vars = ["X", "M", "Y", "W"];
+const groups = [
+  group("A", ",X,M,Y,W\nX,1\nM,.40|300,1\nY,.35|300,.50|300,1\nW,.20|300,.30|300,.25|300,1"),
+  group("B", ",X,M,Y,W\nX,1\nM,.15|200,1\nY,.20|200,.45|200,1\nW,.10|200,.25|200,.30|200,1"),
+];
+const edges: Edge[] = [
+  { kind: "path", from: "X", to: "M" },
+  { kind: "path", from: "M", to: "Y" },
+  { kind: "path", from: "W", to: "Y" },
+];
+
+function single(g: GroupData) {
+  const out = estimateModel({ vars, cellM: g.cellM, edges, estimator: "ML", nMethod: "harmonic" });
+  if (!out.ok) throw new Error(out.errors.join(" "));
+  return out.result;
+}
+
+describe("estimateMultiGroup", () => {
+  const res = estimateMultiGroup(vars, groups, edges, ["X->M"], "harmonic");
+  const fits = groups.map(single);
+
+  it("fits the configural model as the separate single-group models", () => {
+    const configural = res.configural!;
+    expect(configural.chi2).toBeCloseTo(fits[0].fit.chi2! + fits[1].fit.chi2!, 5);
+    expect(configural.df).toBe(fits[0].fit.df + fits[1].fit.df);
+  });
+
+  it("shares an invariant path across groups and tests it with one df", () => {
+    const [a, b] = res.groups.map((g) => g.coeffs.find((c) => c.from === "X" && c.to === "M")!.beta);
+    expect(a).toBeCloseTo(b, 8);
+    const separate = fits.map((f) => f.coeffs.find((c) => c.from === "X" && c.to === "M")!.beta);
+    expect(a).toBeGreaterThan(Math.min(...separate));
+    expect(a).toBeLessThan(Math.max(...separate));
+    const [test] = res.tests;
+    expect(test.dDf).toBe(1);
+    expect(test.dChi2).toBeGreaterThan(3.84);
+    expect(res.fit.df).toBe(res.configural!.df + 1);
+    expect(res.groups[0].chi2 + res.groups[1].chi2).toBeCloseTo(res.fit.chi2, 6);
+  });
+
+  it("bases the RMSEA on the sum of N_g - 1 and scales it by √G", () => {
+    const { chi2, df, rmsea } = res.fit;
+    expect(rmsea).toBeCloseTo(Math.sqrt(2) * Math.sqrt(Math.max(0, chi2 - df) / (df * (299 + 199))), 10);
+  });
+
+  it("finds no difference between identical groups", () => {
+    const twins = estimateMultiGroup(vars, [groups[0], { ...groups[0], name: "A2" }], edges, ["X->M", "M->Y"], "harmonic");
+    for (const t of twins.tests) expect(t.dChi2).toBeCloseTo(0, 6);
+    expect(twins.tests.map((t) => t.dDf)).toEqual([1, 1, 2]);
+  });
+});
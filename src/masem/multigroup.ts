@@ -0,0 +1,249 @@
+import type { CellMatrix, Coef, Edge, VarName } from "./types";
+import { buildRMatrix, computeTotalN, validateCellMatrix } from "./cells";
+import { chiSquarePValue } from "./distributions";
+import { computeFitIndices, fitML, pathEdges, srmrOffDiag } from "./estimation";
+import { isPositiveDefinite, logDet, spdInverse } from "./linalg";
+import { matInverse, matMul, matTrace } from "./matrix";
+import { discrepancyML, estimatePathsML, expectedInformation, scaledSigma, sigmaDerivatives } from "./ml";
+import { buildModelSpec, coeffsFromTheta, coeffVcov, expandTheta, expandVcov, freeStart, impliedCorrelation, type ModelSpec } from "./model";
+
+// --- Multi-group ML with cross-group equality constraints ---
+
+export type GroupData = { name: string; cellM: CellMatrix };
+
+export type GroupEstimates = {
+  name: string;
+  N: number;
+  coeffs: Coef[];
+  vcov: number[][];
+  chi2: number; // this group's share of the pooled chi2
+  SRMR: number;
+};
+
+export type MultiGroupFit = {
+  chi2: number;
+  df: number;
+  p: number;
+  cfi: number;
+  tli: number;
+  rmsea: number;
+  freeParams: number; // pooled over groups, invariant parameters once; includes each group's p variances
+};
+
+export type InvarianceTest = { constraint: string; dChi2: number; dDf: number; p: number };
+
+export type MultiGroupResult = {
+  groups: GroupEstimates[];
+  invariant: string[];
+  fit: MultiGroupFit;
+  configural: MultiGroupFit | null; // null when nothing is constrained
+  tests: InvarianceTest[];
+};
+
+export function pathKey(e: Pick<Edge, "from" | "to">): string {
+  return `${e.from}->${e.to}`;
+}
+
+// Invariant paths without a user label get this one so a group's spec ties them like any label.
+const INVARIANT_PREFIX = "=";
+
+type GroupModel = {
+  name: string;
+  spec: ModelSpec;
+  S: number[][];
+  N: number;
+  logDetS: number;
+  index: number[]; // group vector (free params, then scale factors) -> pooled vector
+  start: number[];
+  template: Coef[];
+};
+
+/**
+ * One spec per group over a shared parameter vector. Free parameters tied to an invariant
+ * path (directly or through a user label) share one pooled index across groups; everything
+ * else, including the Cudeck scale factors, is group-specific.
+ */
+function buildGroupModels(vars: VarName[], groups: GroupData[], edges: Edge[], invariant: Set<string>, nMethod: "harmonic" | "min") {
+  const shared = new Map<string, number>();
+  let nPooled = 0;
+  const models: GroupModel[] = groups.map((g) => {
+    const groupEdges = edges.map((e) =>
+      e.kind === "path" && invariant.has(pathKey(e)) && e.fixed === undefined && !e.label ? { ...e, label: `${INVARIANT_PREFIX}${pathKey(e)}` } : e
+    );
+    const spec = buildModelSpec(vars, groupEdges);
+    const N = computeTotalN(vars, g.cellM, nMethod);
+    const single = estimatePathsML(vars, g.cellM, edges, N);
+
+    const sharedLabel = (f: number) =>
+      spec.params.find((p, k) => spec.freeIndex[k] === f && p.kind === "path" && p.source === "edge" && invariant.has(pathKey(p)))?.label;
+    const index = [
+      ...Array.from({ length: spec.nFree }, (_, f) => {
+        const label = sharedLabel(f);
+        if (label === undefined) return nPooled++;
+        if (!shared.has(label)) shared.set(label, nPooled++);
+        return shared.get(label)!;
+      }),
+      ...vars.map(() => nPooled++),
+    ];
+    const S = buildRMatrix(vars, g.cellM);
+    if (!isPositiveDefinite(S)) throw new Error(`Correlation matrix of group "${g.name}" is not positive definite.`);
+    return {
+      name: g.name,
+      spec,
+      S,
+      N,
+      logDetS: logDet(S),
+      index,
+      start: [...freeStart(spec, single.ml.theta), ...vars.map(() => 1)],
+      template: single.coeffs,
+    };
+  });
+  return { models, nPooled };
+}
+
+/** Fisher scoring on sum_g (N_g - 1) F_ML,g; the pooled chi2 is that sum at the minimum. */
+function fitPooled(models: GroupModel[], nPooled: number) {
+  const sum = Array(nPooled).fill(0);
+  const count = Array(nPooled).fill(0);
+  for (const m of models) m.index.forEach((a, k) => ((sum[a] += m.start[k]), count[a]++));
+  let theta = sum.map((s, a) => s / count[a]);
+
+  const local = (m: GroupModel, th: number[]) => m.index.map((a) => th[a]);
+  const F = (th: number[]) =>
+    models.reduce((s, m) => {
+      try {
+        return s + (m.N - 1) * discrepancyML(m.S, scaledSigma(m.spec, local(m, th)), m.logDetS);
+      } catch {
+        return Number.NaN;
+      }
+    }, 0);
+  const information = (th: number[], withGradient: boolean) => {
+    const H = Array.from({ length: nPooled }, () => Array(nPooled).fill(0));
+    const g = Array(nPooled).fill(0);
+    for (const m of models) {
+      const full = local(m, th);
+      const Sigma = scaledSigma(m.spec, full);
+      const SigInv = spdInverse(Sigma);
+      const dSig = sigmaDerivatives(m.spec, full);
+      const Hg = expectedInformation(SigInv, dSig);
+      m.index.forEach((a, k) => m.index.forEach((b, l) => (H[a][b] += (m.N - 1) * Hg[k][l])));
+      if (!withGradient) continue;
+      const R = matMul(matMul(SigInv, Sigma.map((row, i) => row.map((x, j) => x - m.S[i][j]))), SigInv);
+      dSig.forEach((D, k) => (g[m.index[k]] += (m.N - 1) * matTrace(matMul(R, D))));
+    }
+    return { H, g };
+  };
+
+  let f = F(theta);
+  if (!Number.isFinite(f)) throw new Error("Multi-group starting values give a non positive definite implied matrix.");
+  for (let it = 0; it < 200; it++) {
+    const { H, g } = information(theta, true);
+    const Hinv = matInverse(H);
+    const step = Hinv.map((row) => -row.reduce((s, x, b) => s + x * g[b], 0));
+    let lambda = 1;
+    let next = theta.map((x, a) => x + step[a]);
+    let fNext = F(next);
+    for (let h = 0; h < 30 && !(Number.isFinite(fNext) && fNext <= f + 1e-10); h++) {
+      lambda /= 2;
+      next = theta.map((x, a) => x + lambda * step[a]);
+      fNext = F(next);
+    }
+    if (!Number.isFinite(fNext)) throw new Error("Multi-group estimation failed to converge. Check the groups' correlations or the constraints.");
+    const maxStep = Math.max(0, ...step.map((x) => Math.abs(lambda * x)));
+    theta = next;
+    f = fNext;
+    if (maxStep < 1e-9) break;
+  }
+  const vcov = matInverse(information(theta, false).H).map((row) => row.map((x) => 2 * x));
+  return { theta, vcov, chi2: f };
+}
+
+function pooledFit(models: GroupModel[], nPooled: number, chi2: number): MultiGroupFit {
+  const p = models[0].spec.vars.length;
+  const G = models.length;
+  const df = (G * p * (p + 1)) / 2 - nPooled;
+  const df0 = (G * p * (p - 1)) / 2;
+  const chi2_0 = models.reduce((s, m) => s + fitML(m.S, m.S, m.N).chi2_0, 0);
+  // The fit function weights group g by N_g - 1, so the pooled "N - 1" is Σ(N_g - 1) = N - G.
+  const N = models.reduce((s, m) => s + m.N - 1, 0) + 1;
+  const { cfi, tli, rmsea } = computeFitIndices({ chi2, df, chi2_0, df0, N });
+  // RMSEA = √G · √(max(0, χ² - df) / (df · Σ(N_g - 1))): with G groups the noncentrality is spread
+  // over G covariance matrices (Steiger, 1998). The free parameters are counted like a single
+  // group's, scale factors (variances) included, so that df = G p(p + 1)/2 - freeParams.
+  return { chi2, df, p: df > 0 ? chiSquarePValue(chi2, df) : Number.NaN, cfi, tli, rmsea: rmsea * Math.sqrt(G), freeParams: nPooled };
+}
+
+function fitGroups(vars: VarName[], groups: GroupData[], edges: Edge[], invariant: Set<string>, nMethod: "harmonic" | "min") {
+  const { models, nPooled } = buildGroupModels(vars, groups, edges, invariant, nMethod);
+  const pooled = fitPooled(models, nPooled);
+  return { models, nPooled, pooled, fit: pooledFit(models, nPooled, pooled.chi2) };
+}
+
+function differenceTest(constraint: string, restricted: MultiGroupFit, general: MultiGroupFit): InvarianceTest {
+  const dChi2 = restricted.chi2 - general.chi2;
+  const dDf = restricted.df - general.df;
+  return { constraint, dChi2, dDf, p: dDf > 0 ? chiSquarePValue(Math.max(0, dChi2), dDf) : Number.NaN };
+}
+
+/**
+ * Fits the same path model to every group by ML. Paths listed in `invariant` (as "from->to")
+ * are constrained equal across groups. Besides the constrained model this fits the configural
+ * model (no cross-group constraints) and, for each invariant path, the model constraining only
+ * that path, and reports the chi-square difference tests against the configural model.
+ */
+export function estimateMultiGroup(
+  vars: VarName[],
+  groups: GroupData[],
+  edges: Edge[],
+  invariant: string[],
+  nMethod: "harmonic" | "min"
+): MultiGroupResult {
+  if (groups.length < 2) throw new Error("Select at least two groups.");
+  if (new Set(groups.map((g) => g.name)).size !== groups.length) throw new Error("Group names must be unique.");
+  if (!pathEdges(edges).length) throw new Error("No paths defined. Create at least one directed edge.");
+  for (const g of groups) {
+    const v = validateCellMatrix(vars, g.cellM);
+    if (!v.ok) throw new Error(`${g.name}: ${v.errors.join(" ")}`);
+  }
+  const known = new Set(pathEdges(edges).map(pathKey));
+  const inv = invariant.filter((k) => known.has(k));
+
+  const constrained = fitGroups(vars, groups, edges, new Set(inv), nMethod);
+  const configural = inv.length ? fitGroups(vars, groups, edges, new Set(), nMethod) : null;
+  const tests: InvarianceTest[] = [];
+  if (configural) {
+    if (inv.length > 1) {
+      for (const k of inv) tests.push(differenceTest(k, fitGroups(vars, groups, edges, new Set([k]), nMethod).fit, configural.fit));
+    }
+    tests.push(differenceTest(inv.length > 1 ? "All selected paths" : inv[0], constrained.fit, configural.fit));
+  }
+
+  const { models, pooled } = constrained;
+  return {
+    groups: models.map((m) => {
+      const full = m.index.map((a) => pooled.theta[a]);
+      const q = m.spec.nFree;
+      const theta = expandTheta(m.spec, full.slice(0, q));
+      const vcov = expandVcov(
+        m.spec,
+        m.index.slice(0, q).map((a) => m.index.slice(0, q).map((b) => pooled.vcov[a][b]))
+      );
+      const coeffs = coeffsFromTheta(m.spec, theta, vcov, m.template).map((c) => ({
+        ...c,
+        label: c.label?.startsWith(INVARIANT_PREFIX) ? undefined : c.label,
+      }));
+      return {
+        name: m.name,
+        N: m.N,
+        coeffs,
+        vcov: coeffVcov(m.spec, vcov, coeffs),
+        chi2: (m.N - 1) * discrepancyML(m.S, scaledSigma(m.spec, full), m.logDetS),
+        SRMR: srmrOffDiag(m.S, impliedCorrelation(m.spec, theta).Sigma),
+      };
+    }),
+    invariant: inv,
+    fit: constrained.fit,
+    configural: configural?.fit ?? null,
+    tests,
+  };
+}
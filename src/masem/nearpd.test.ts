@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { parseCombinedMatrixText } from "./cells";
+import { isPositiveDefinite } from "./linalg";
+import { eigenDiagnostics, highamNearestCorrelation, MIN_EIGENVALUE, repairCellMatrix, smoothEigenvalues } from "./nearpd";
+
+// Higham's (2002) example: not positive semidefinite, smallest eigenvalue 1 - √2.
+const A = [
+  [1, 1, 0],
+  [1, 1, 1],
+  [0, 1, 1],
+];
+
+function expectCorrelationMatrix(R: number[][]) {
+  R.forEach((row, i) => {
+    expect(row[i]).toBeCloseTo(1, 10);
+    row.forEach((x, j) => expect(x).toBeCloseTo(R[j][i], 12));
+  });
+  expect(isPositiveDefinite(R)).toBe(true);
+  // Rescaling to unit diagonal can move the smallest eigenvalue slightly off the floor.
+  expect(eigenDiagnostics(R).values[R.length - 1]).toBeGreaterThan(MIN_EIGENVALUE / 2);
+}
+
+describe("highamNearestCorrelation", () => {
+  it("repairs a non-positive-definite matrix to the published nearest correlation matrix", () => {
+    expect(eigenDiagnostics(A).positiveDefinite).toBe(false);
+    const { R } = highamNearestCorrelation(A);
+    expectCorrelationMatrix(R);
+    expect(R[0][1]).toBeCloseTo(0.7607, 3);
+    expect(R[0][2]).toBeCloseTo(0.1573, 3);
+    expect(R[1][2]).toBeCloseTo(0.7607, 3);
+  });
+
+  it("leaves a positive definite matrix unchanged", () => {
+    const P = [
+      [1, 0.5, 0.3],
+      [0.5, 1, 0.4],
+      [0.3, 0.4, 1],
+    ];
+    const { R } = highamNearestCorrelation(P);
+    R.forEach((row, i) => row.forEach((x, j) => expect(x).toBeCloseTo(P[i][j], 8)));
+  });
+});
+
+describe("smoothEigenvalues", () => {
+  it("returns a positive definite correlation matrix", () => {
+    expectCorrelationMatrix(smoothEigenvalues(A));
+  });
+});
+
+describe("repairCellMatrix", () => {
+  const { vars, cellMatrix } = parseCombinedMatrixText(`
+,A,B,C
+A,1
+B,.90|300,1
+C,.10|250,.90|400,1
+`);
+
+  it("replaces the correlations, keeps the sample sizes and lists what moved", () => {
+    for (const method of ["higham", "smooth"] as const) {
+      const repair = repairCellMatrix(vars, cellMatrix, method);
+      expect(repair.before.positiveDefinite).toBe(false);
+      expect(repair.after.positiveDefinite).toBe(true);
+      expect(repair.cellM.B.C.n).toBe(400);
+      expect(repair.cellM.C.B.r).toBe(repair.cellM.B.C.r);
+      expect(repair.changes.length).toBeGreaterThan(0);
+      for (const c of repair.changes) expect(repair.cellM[c.a][c.b].r).toBe(c.after);
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import type { CellMatrix, VarName } from "./types";
+import { buildRMatrix } from "./cells";
+import { offDiagPairs } from "./correlation";
+import { conditionNumber, symmetricEigen } from "./linalg";
+
+// --- Positive-definiteness diagnostics and repair of the pooled correlation matrix ---
+
+export type RepairMethod = "higham" | "smooth";
+
+/** Smallest eigenvalue a repaired matrix keeps, so that ML and WLS can invert it. */
+export const MIN_EIGENVALUE = 1e-4;
+
+export type EigenDiagnostics = {
+  values: number[]; // decreasing
+  positiveDefinite: boolean;
+  condition: number; // largest / smallest eigenvalue; Infinity unless positive definite
+};
+
+export type RepairChange = { a: VarName; b: VarName; before: number; after: number };
+
+export type Repair = {
+  method: RepairMethod;
+  cellM: CellMatrix;
+  changes: RepairChange[]; // off-diagonal pairs whose r moved by more than 5e-5
+  before: EigenDiagnostics;
+  after: EigenDiagnostics;
+  iterations: number;
+};
+
+export function eigenDiagnostics(R: number[][]): EigenDiagnostics {
+  const { values } = symmetricEigen(R);
+  const min = values[values.length - 1] ?? 1;
+  return {
+    values,
+    positiveDefinite: min > 1e-10,
+    condition: conditionNumber(values),
+  };
+}
+
+/** Eigenvalues below `floor` raised to it: the closest matrix (Frobenius norm) with that minimum eigenvalue. */
+function clipEigen(A: number[][], floor: number): number[][] {
+  const { values, vectors } = symmetricEigen(A);
+  const d = values.map((x) => Math.max(x, floor));
+  return A.map((_, i) => A.map((_, j) => d.reduce((s, x, k) => s + vectors[i][k] * x * vectors[j][k], 0)));
+}
+
+/** D^-1/2 A D^-1/2: unit diagonal, the same eigenvalue signs. */
+function toCorrelation(A: number[][]): number[][] {
+  const s = A.map((row, i) => Math.sqrt(row[i]));
+  return A.map((row, i) => row.map((x, j) => (i === j ? 1 : x / (s[i] * s[j]))));
+}
+
+/**
+ * Higham's (2002) nearest correlation matrix: alternating projections with Dykstra's correction
+ * between the matrices with eigenvalues ≥ `floor` and those with unit diagonal.
+ */
+export function highamNearestCorrelation(R: number[][], floor = MIN_EIGENVALUE): { R: number[][]; iterations: number } {
+  let Y = R.map((row) => row.slice());
+  let dS = R.map((row) => row.map(() => 0));
+  let iterations = 0;
+  for (; iterations < 500; iterations++) {
+    const Rk = Y.map((row, i) => row.map((x, j) => x - dS[i][j]));
+    const X = clipEigen(Rk, floor);
+    dS = X.map((row, i) => row.map((x, j) => x - Rk[i][j]));
+    const next = X.map((row, i) => row.map((x, j) => (i === j ? 1 : x)));
+    const change = Math.max(0, ...next.flatMap((row, i) => row.map((x, j) => Math.abs(x - Y[i][j]))));
+    Y = next;
+    if (change < 1e-9) break;
+  }
+  // The unit-diagonal projection can leave the smallest eigenvalue just below the floor; one
+  // clip and rescale restores it without moving the matrix noticeably.
+  if (!eigenDiagnostics(Y).positiveDefinite) Y = toCorrelation(clipEigen(Y, floor));
+  return { R: Y, iterations: iterations + 1 };
+}
+
+/**
+ * Eigenvalue smoothing (Wothke, 1993): eigenvalues below `floor` are raised to it, the rest are
+ * scaled so that they still sum to p, and the result is rescaled to unit diagonal.
+ */
+export function smoothEigenvalues(R: number[][], floor = MIN_EIGENVALUE): number[][] {
+  const p = R.length;
+  const { values, vectors } = symmetricEigen(R);
+  const raised = values.map((x) => Math.max(x, floor));
+  const low = raised.filter((x, k) => x !== values[k]).reduce((s, x) => s + x, 0);
+  const high = raised.filter((x, k) => x === values[k]).reduce((s, x) => s + x, 0);
+  const d = raised.map((x, k) => (x === values[k] ? (x * (p - low)) / high : x));
+  return toCorrelation(R.map((_, i) => R.map((_, j) => d.reduce((s, x, k) => s + vectors[i][k] * x * vectors[j][k], 0))));
+}
+
+/**
+ * The CellMatrix with its correlations replaced by a positive definite repair. Sample sizes and
+ * heterogeneity statistics of each pair are kept; `changes` lists every r that moved.
+ */
+export function repairCellMatrix(vars: VarName[], cellM: CellMatrix, method: RepairMethod): Repair {
+  const R = buildRMatrix(vars, cellM);
+  const higham = method === "higham" ? highamNearestCorrelation(R) : null;
+  const fixed = higham ? higham.R : smoothEigenvalues(R);
+
+  const next: CellMatrix = Object.fromEntries(vars.map((x) => [x, { ...cellM[x] }]));
+  const changes: RepairChange[] = [];
+  for (const [i, j] of offDiagPairs(vars.length)) {
+    const [a, b] = [vars[j], vars[i]];
+    const after = fixed[i][j];
+    next[a][b] = { ...cellM[a][b], r: after };
+    next[b][a] = { ...cellM[b][a], r: after };
+    if (Math.abs(after - R[i][j]) > 5e-5) changes.push({ a, b, before: R[i][j], after });
+  }
+  return {
+    method,
+    cellM: next,
+    changes,
+    before: eigenDiagnostics(R),
+    after: eigenDiagnostics(fixed),
+    iterations: higham?.iterations ?? 1,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { estimatePathsML } from "./ml";
+import { checkIdentification, describeCycle, estimatePaths2SLS, feedbackBlocks, stabilityIndex } from "./nonrecursive";
+
+const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X1,X2,Y1,Y2
+X1,1
+X2,.30|400,1
+Y1,.50|400,.30|400,1
+Y2,.35|400,.50|400,.55|400,1
+`);
+
+const path = (from: string, to: string): Edge => ({ kind: "path", from, to });
+// Each Y has its own instrument, so the loop is just identified.
+const loop = [path("X1", "Y1"), path("Y2", "Y1"), path("X2", "Y2"), path("Y1", "Y2")];
+const beta = (coeffs: { from: string; to: string; beta: number }[], from: string, to: string) => coeffs.find((c) => c.from === from && c.to === to)!.beta;
+
+describe("feedback blocks", () => {
+  it("finds the loop and describes it", () => {
+    expect(feedbackBlocks(vars, loop)).toEqual([["Y1", "Y2"]]);
+    expect(describeCycle(["Y1", "Y2"], loop)).toBe("Y1 → Y2 → Y1");
+    expect(feedbackBlocks(vars, loop.slice(0, 3))).toEqual([]);
+  });
+
+  it("reports equations that fail the order condition", () => {
+    expect(checkIdentification(vars, loop)).toEqual([]);
+    expect(checkIdentification(vars, [path("Y2", "Y1"), path("Y1", "Y2"), path("X1", "Y1"), path("X1", "Y2")]).length).toBeGreaterThan(0);
+  });
+});
+
+describe("estimatePaths2SLS", () => {
+  const { coeffs } = estimatePaths2SLS(vars, cellMatrix, loop, 400);
+
+  it("is the instrumental-variable solution for a just-identified equation", () => {
+    // Y1 = b·Y2 + g·X1 with instruments X1, X2: [r(X1,Y2) 1; r(X2,Y2) r(X1,X2)] [b; g] = [r(X1,Y1); r(X2,Y1)].
+    const det = 0.35 * 0.3 - 1 * 0.5;
+    const b = (0.5 * 0.3 - 1 * 0.3) / det;
+    const g = (0.35 * 0.3 - 0.5 * 0.5) / det;
+    expect(beta(coeffs, "Y2", "Y1")).toBeCloseTo(b, 10);
+    expect(beta(coeffs, "X1", "Y1")).toBeCloseTo(g, 10);
+  });
+
+  it("agrees with ML when the residuals of the loop may correlate", () => {
+    const ml = estimatePathsML(vars, cellMatrix, [...loop, { kind: "cov", from: "Y1", to: "Y2" }], 400);
+    expect(ml.ml.chi2).toBeCloseTo(0, 6);
+    for (const e of loop) expect(beta(ml.coeffs, e.from, e.to)).toBeCloseTo(beta(coeffs, e.from, e.to), 5);
+  });
+
+  it("measures stability by the spectral radius of the loop", () => {
+    // The eigenvalues of a two-variable loop are ±√(b12·b21); ||B^64||^(1/64) is within about 1%.
+    const rho = Math.sqrt(Math.abs(beta(coeffs, "Y2", "Y1") * beta(coeffs, "Y1", "Y2")));
+    expect(Math.abs(stabilityIndex(vars, coeffs) / rho - 1)).toBeLessThan(0.02);
+    const explosive = coeffs.map((c) => (c.to.startsWith("Y") && c.from.startsWith("Y") ? { ...c, beta: 1.5 } : c));
+    expect(stabilityIndex(vars, explosive)).toBeGreaterThan(1);
+  });
+});
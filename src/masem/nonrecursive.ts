@@ -0,0 +1,212 @@
+import type { CellMatrix, Coef, Edge, VarName } from "./types";
+import { tPValue } from "./distributions";
+import { parentsOf, pathEdges } from "./estimation";
+import { matInverse, matMul, matVecMul, transpose, vecDot } from "./matrix";
+
+// --- Feedback loops (non-recursive models) ---
+
+/** Strongly connected components with more than one variable, i.e. the feedback blocks of the model. */
+export function feedbackBlocks(vars: VarName[], edges: Edge[]): VarName[][] {
+  const index = new Map<VarName, number>();
+  const low = new Map<VarName, number>();
+  const onStack = new Set<VarName>();
+  const stack: VarName[] = [];
+  const blocks: VarName[][] = [];
+  const directed = pathEdges(edges);
+  let counter = 0;
+
+  const visit = (v: VarName) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+    for (const e of directed) {
+      if (e.from !== v) continue;
+      const w = e.to;
+      if (!index.has(w)) {
+        visit(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) === index.get(v)) {
+      const comp: VarName[] = [];
+      let w: VarName;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        comp.push(w);
+      } while (w !== v);
+      if (comp.length > 1) blocks.push(vars.filter((x) => comp.includes(x)));
+    }
+  };
+
+  for (const v of vars) if (!index.has(v)) visit(v);
+  return blocks;
+}
+
+export function isRecursive(vars: VarName[], edges: Edge[]): boolean {
+  return feedbackBlocks(vars, edges).length === 0;
+}
+
+/** One directed cycle through the block, for messages such as "A → B → A". */
+export function describeCycle(block: VarName[], edges: Edge[]): string {
+  const inBlock = new Set(block);
+  const path: VarName[] = [block[0]];
+  const seen = new Set(path);
+  let cur = block[0];
+  for (;;) {
+    const next = pathEdges(edges).find((e) => e.from === cur && inBlock.has(e.to) && (e.to === block[0] || !seen.has(e.to)));
+    if (!next) break;
+    path.push(next.to);
+    if (next.to === block[0]) break;
+    seen.add(next.to);
+    cur = next.to;
+  }
+  return path.join(" → ");
+}
+
+// Outside variables with a path into the block; they are predetermined relative to it.
+function predeterminedFor(block: VarName[], edges: Edge[]): VarName[] {
+  const inBlock = new Set(block);
+  const out: VarName[] = [];
+  for (const e of pathEdges(edges)) {
+    if (inBlock.has(e.to) && !inBlock.has(e.from) && !out.includes(e.from)) out.push(e.from);
+  }
+  return out;
+}
+
+function rank(A: number[][], tol = 1e-9): number {
+  const M = A.map((r) => r.slice());
+  const rows = M.length;
+  const cols = rows ? M[0].length : 0;
+  let rk = 0;
+  for (let c = 0; c < cols && rk < rows; c++) {
+    let piv = rk;
+    for (let r = rk; r < rows; r++) if (Math.abs(M[r][c]) > Math.abs(M[piv][c])) piv = r;
+    if (Math.abs(M[piv][c]) < tol) continue;
+    [M[rk], M[piv]] = [M[piv], M[rk]];
+    for (let r = rk + 1; r < rows; r++) {
+      const f = M[r][c] / M[rk][c];
+      for (let j = c; j < cols; j++) M[r][j] -= f * M[rk][j];
+    }
+    rk++;
+  }
+  return rk;
+}
+
+// Generic coefficient values for the rank condition: fractional parts of k times the golden
+// ratio, which satisfy no accidental linear relation, and give the same verdict on every run.
+function genericValue(k: number): number {
+  return 0.3 + ((k * 0.6180339887498949) % 1);
+}
+
+/**
+ * Order and rank conditions for every equation inside a feedback block. Upstream variables
+ * are treated as predetermined; the rank condition is evaluated at generic (fixed irrational)
+ * values of the free coefficients.
+ */
+export function checkIdentification(vars: VarName[], edges: Edge[]): string[] {
+  const problems: string[] = [];
+  for (const block of feedbackBlocks(vars, edges)) {
+    const pre = predeterminedFor(block, edges);
+    const cols = [...block, ...pre];
+    const A = block.map((y, i) =>
+      cols.map((c, j) => (c === y ? 1 : parentsOf(y, edges).includes(c) ? -genericValue(i * cols.length + j + 1) : 0))
+    );
+    block.forEach((y, i) => {
+      const parents = parentsOf(y, edges);
+      const endoRegressors = parents.filter((x) => block.includes(x)).length;
+      const excludedPre = pre.filter((x) => !parents.includes(x)).length;
+      if (excludedPre < endoRegressors) {
+        problems.push(
+          `"${y}" fails the order condition: it has ${endoRegressors} feedback predictor(s) but only ${excludedPre} excluded instrument(s). Add a path into the loop from a variable that does not predict "${y}".`
+        );
+        return;
+      }
+      const excluded = cols.map((c, j) => (c !== y && !parents.includes(c) ? j : -1)).filter((j) => j >= 0);
+      const sub = A.filter((_, r) => r !== i).map((row) => excluded.map((j) => row[j]));
+      if (rank(sub) < block.length - 1) {
+        problems.push(`"${y}" fails the rank condition: its excluded instruments do not predict the other variables in the loop.`);
+      }
+    });
+  }
+  return problems;
+}
+
+/**
+ * Spectral radius of the path matrix B, approximated by ||B^k||^(1/k). Values >= 1 mean the
+ * feedback loop does not converge and total effects are undefined.
+ */
+export function stabilityIndex(vars: VarName[], coeffs: Coef[]): number {
+  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
+  const B = vars.map(() => vars.map(() => 0));
+  for (const c of coeffs) if (c.kind === "path") B[idx[c.to]][idx[c.from]] = c.beta;
+  let P = B.map((r) => r.slice());
+  const k = 64;
+  let logScale = 0;
+  for (let i = 1; i < k; i++) {
+    P = matMul(P, B);
+    const norm = Math.sqrt(P.reduce((s, r) => s + r.reduce((t, x) => t + x * x, 0), 0));
+    if (norm === 0) return 0;
+    logScale += Math.log(norm);
+    P = P.map((r) => r.map((x) => x / norm));
+  }
+  return Math.exp(logScale / k);
+}
+
+/**
+ * Two-stage least squares from the correlation matrix. Equations in a feedback block use the
+ * block's predetermined variables as instruments; other equations reduce to OLS.
+ */
+export function estimatePaths2SLS(vars: VarName[], cellM: CellMatrix, edges: Edge[], totalN: number): {
+  coeffs: Coef[];
+  r2: Record<VarName, number>;
+  resid: Record<VarName, number>;
+  vcov: number[][];
+} {
+  const coeffs: Coef[] = [];
+  const r2: Record<VarName, number> = {};
+  const resid: Record<VarName, number> = {};
+  const blocks = feedbackBlocks(vars, edges);
+  const covBlocks: { start: number; cov: number[][] }[] = [];
+  const R = (a: VarName, b: VarName) => (a === b ? 1 : cellM[a][b].r);
+
+  for (const y of vars) {
+    const X = parentsOf(y, edges);
+    if (X.length === 0) continue;
+    const block = blocks.find((b) => b.includes(y));
+    const Z = block ? [...new Set([...X.filter((x) => !block.includes(x)), ...predeterminedFor(block, edges)])] : X;
+
+    const Rxz = X.map((a) => Z.map((b) => R(a, b)));
+    const Rzz = Z.map((a) => Z.map((b) => R(a, b)));
+    const rZy = Z.map((a) => R(a, y));
+    const Rxx = X.map((a) => X.map((b) => R(a, b)));
+    const rXy = X.map((a) => R(a, y));
+
+    const RxzZinv = matMul(Rxz, matInverse(Rzz));
+    const H = matMul(RxzZinv, transpose(Rxz));
+    const Hinv = matInverse(H);
+    const beta = matVecMul(Hinv, matVecMul(RxzZinv, rZy));
+
+    // Structural residual variance uses the observed regressors, not their first-stage fit.
+    const sigma2 = 1 - 2 * vecDot(beta, rXy) + vecDot(beta, matVecMul(Rxx, beta));
+    r2[y] = 1 - sigma2;
+    resid[y] = Math.max(1e-8, sigma2);
+
+    const df = totalN - X.length - 1;
+    const inv = matInverse(Rxx);
+    covBlocks.push({ start: coeffs.length, cov: Hinv.map((row) => row.map((x) => (sigma2 * x) / df)) });
+    X.forEach((x, i) => {
+      const se = Math.sqrt((sigma2 * Hinv[i][i]) / df);
+      const t = Math.abs(beta[i] / se);
+      coeffs.push({ kind: "path", from: x, to: y, beta: beta[i], se, t, p: tPValue(t, df), vif: inv[i][i], df });
+    });
+  }
+
+  const vcov = coeffs.map(() => coeffs.map(() => 0));
+  for (const b of covBlocks) b.cov.forEach((row, i) => row.forEach((x, j) => (vcov[b.start + i][b.start + j] = x)));
+  return { coeffs, r2, resid, vcov };
+}
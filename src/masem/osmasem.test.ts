@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "./types";
+import { estimateOSMASEM } from "./osmasem";
+import { parseStudiesText } from "./tssem";
+
+const study = (id: string, n: number, r: number, year?: number) =>
+  `# ${id}; n=${n}${year === undefined ? "" : `; year=${year}`}\n,X,Y\nX,1\nY,${r},1`;
+const edges: Edge[] = [{ kind: "path", from: "X", to: "Y" }];
+
+describe("estimateOSMASEM", () => {
+  it("recovers an exactly linear moderation of the path", () => {
+    // r = .30 + .05 (year - 2010); the mean year is 2010.
+    const studies = parseStudiesText(
+      [study("A", 800, 0.2, 2008), study("B", 1000, 0.25, 2009), study("C", 1200, 0.35, 2011), study("D", 900, 0.4, 2012), study("E", 100, 0.3)].join("\n")
+    );
+    const res = estimateOSMASEM(["X", "Y"], studies, edges, "year");
+    expect(res.center).toBe(2010);
+    expect(res.skipped).toEqual(["E"]);
+    expect(res.studyCount).toBe(4);
+    const [c] = res.coeffs;
+    expect(c.intercept.est).toBeCloseTo(0.3, 6);
+    expect(c.slope!.est).toBeCloseTo(0.05, 6);
+    expect(res.Q).toBeCloseTo(0, 6);
+    expect(res.heterogeneity[0].tau2).toBeCloseTo(0, 8);
+    expect(res.heterogeneity[0].tau2Base).toBeGreaterThan(0);
+    expect(res.r2).toBeCloseTo(1, 6);
+    expect(res.slopeTest.df).toBe(1);
+  });
+
+  it("finds no slope when the correlations do not depend on the moderator", () => {
+    const studies = parseStudiesText([study("A", 200, 0.3, 1), study("B", 200, 0.3, 2), study("C", 200, 0.3, 3)].join("\n"));
+    const [c] = estimateOSMASEM(["X", "Y"], studies, edges, "year").coeffs;
+    expect(c.slope!.est).toBeCloseTo(0, 8);
+    expect(c.intercept.est).toBeCloseTo(0.3, 8);
+  });
+
+  it("needs three studies with distinct moderator values", () => {
+    const two = parseStudiesText([study("A", 200, 0.3, 1), study("B", 200, 0.3, 2), study("C", 200, 0.3)].join("\n"));
+    expect(() => estimateOSMASEM(["X", "Y"], two, edges, "year")).toThrow(/at least 3/);
+    const same = parseStudiesText([study("A", 200, 0.3, 1), study("B", 200, 0.2, 1), study("C", 200, 0.4, 1)].join("\n"));
+    expect(() => estimateOSMASEM(["X", "Y"], same, edges, "year")).toThrow(/same in every study/);
+  });
+});
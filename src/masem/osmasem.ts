@@ -0,0 +1,216 @@
+import type { Edge, EdgeKind, VarName } from "./types";
+import { offDiagPairs, vechs } from "./correlation";
+import { chiSquarePValue, normalPValue } from "./distributions";
+import { pathEdges } from "./estimation";
+import { matInverse } from "./matrix";
+import { buildModelSpec, expandTheta, impliedCorrelation, numericJacobian, type ModelSpec } from "./model";
+import { poolCorrelationMatrices, stage1ToCellMatrix, studyVectors, type Study, type StudyVectors } from "./tssem";
+import { estimatePathsWLS } from "./wls";
+
+// --- One-stage MASEM with a continuous study-level moderator ---
+
+export type ModeratedEstimate = { est: number; se: number; z: number; p: number };
+
+export type ModeratedCoef = {
+  kind: EdgeKind;
+  from: VarName;
+  to: VarName;
+  label?: string;
+  intercept: ModeratedEstimate; // at the mean of the moderator
+  slope: ModeratedEstimate | null; // change per unit of the moderator; null when not moderated
+};
+
+export type Heterogeneity = {
+  pair: [VarName, VarName];
+  k: number;
+  tau2Base: number; // no moderator
+  tau2: number; // residual, with the moderator
+};
+
+export type OsmasemResult = {
+  moderator: string;
+  center: number; // moderator mean; intercepts are the paths at this value
+  studyCount: number;
+  skipped: string[]; // studies without a value for the moderator
+  coeffs: ModeratedCoef[];
+  slopeTest: { chi2: number; df: number; p: number }; // all slopes = 0
+  heterogeneity: Heterogeneity[];
+  r2: number; // share of the total tau^2 explained by the moderator
+  Q: number; // residual heterogeneity of the moderated model without tau^2
+  dfQ: number;
+  pQ: number;
+};
+
+type Design = {
+  spec: ModelSpec;
+  moderated: number[]; // free indices whose value depends on the moderator
+  x: number[]; // centred moderator per study
+};
+
+// Free vector of study i: intercepts plus x_i times the slopes of the moderated entries.
+function studyTheta(d: Design, phi: number[], i: number): number[] {
+  const theta = phi.slice(0, d.spec.nFree);
+  d.moderated.forEach((f, m) => (theta[f] += d.x[i] * phi[d.spec.nFree + m]));
+  return theta;
+}
+
+/**
+ * Gauss–Newton on sum_i (r_i - rho(theta_i))' (V_i + T)^-1 (r_i - rho(theta_i)) over the reported
+ * elements of each study, with T = diag(tau2) held fixed.
+ */
+function fitGLS(d: Design, data: StudyVectors, tau2: number[], start: number[]) {
+  const W = data.rows.map((row, i) => matInverse(data.V[i].map((r, a) => r.map((x, b) => (a === b ? x + tau2[row.obs[a]] : x)))));
+  const rho = (theta: number[]) => vechs(impliedCorrelation(d.spec, expandTheta(d.spec, theta)).Sigma);
+  const residuals = (phi: number[]) => data.rows.map((row, i) => {
+    const r = rho(studyTheta(d, phi, i));
+    return row.obs.map((e, a) => row.r[a] - r[e]);
+  });
+  const F = (phi: number[]) => {
+    try {
+      return residuals(phi).reduce((s, res, i) => s + res.reduce((t, ra, a) => t + res.reduce((u, rb, b) => u + ra * W[i][a][b] * rb, 0), 0), 0);
+    } catch {
+      return Number.NaN;
+    }
+  };
+  // Jacobian of study i's reported elements with respect to phi.
+  const jacobian = (phi: number[], i: number) => {
+    const J = numericJacobian(rho, studyTheta(d, phi, i));
+    return data.rows[i].obs.map((e) => [...J[e], ...d.moderated.map((f) => d.x[i] * J[e][f])]);
+  };
+  const normal = (phi: number[]) => {
+    const q = phi.length;
+    const H = Array.from({ length: q }, () => Array(q).fill(0));
+    const g = Array(q).fill(0);
+    const res = residuals(phi);
+    data.rows.forEach((_, i) => {
+      const J = jacobian(phi, i);
+      const JtW = Array.from({ length: q }, (_, a) => W[i].map((_, c) => J.reduce((s, row, b) => s + row[a] * W[i][b][c], 0)));
+      for (let a = 0; a < q; a++) {
+        for (let b = 0; b < q; b++) H[a][b] += JtW[a].reduce((s, x, c) => s + x * J[c][b], 0);
+        g[a] += JtW[a].reduce((s, x, c) => s + x * res[i][c], 0);
+      }
+    });
+    return { H, g };
+  };
+
+  let phi = start.slice();
+  let f = F(phi);
+  if (!Number.isFinite(f)) throw new Error("OSMASEM starting values give a non positive definite implied matrix.");
+  for (let it = 0; it < 200; it++) {
+    const { H, g } = normal(phi);
+    const step = matInverse(H).map((row) => row.reduce((s, x, b) => s + x * g[b], 0));
+    let lambda = 1;
+    let next = phi.map((x, a) => x + step[a]);
+    let fNext = F(next);
+    for (let h = 0; h < 30 && !(Number.isFinite(fNext) && fNext <= f + 1e-12); h++) {
+      lambda /= 2;
+      next = phi.map((x, a) => x + lambda * step[a]);
+      fNext = F(next);
+    }
+    if (!Number.isFinite(fNext)) throw new Error("OSMASEM estimation failed to converge. Check the model or the study matrices.");
+    const maxStep = Math.max(0, ...step.map((x) => Math.abs(lambda * x)));
+    phi = next;
+    f = fNext;
+    if (maxStep < 1e-9) break;
+  }
+  return { phi, vcov: matInverse(normal(phi).H), F: f, residuals: residuals(phi) };
+}
+
+/**
+ * Moment estimate of the diagonal between-study variance from fixed-effects residuals, element
+ * by element as in DerSimonian–Laird: tau2 = max(0, (Q - (k - 1)) / c).
+ */
+function momentTau2(data: StudyVectors, residuals: number[][]): number[] {
+  return data.k.map((k, e) => {
+    const w: number[] = [];
+    const res: number[] = [];
+    data.rows.forEach((row, i) => {
+      const a = row.obs.indexOf(e);
+      if (a < 0) return;
+      w.push(1 / data.V[i][a][a]);
+      res.push(residuals[i][a]);
+    });
+    if (k < 2) return 0;
+    const sw = w.reduce((s, x) => s + x, 0);
+    const Q = w.reduce((s, wi, i) => s + wi * res[i] ** 2, 0);
+    const c = sw - w.reduce((s, wi) => s + wi * wi, 0) / sw;
+    return Math.max(0, (Q - (k - 1)) / c);
+  });
+}
+
+function estimate(est: number, se: number): ModeratedEstimate {
+  const z = Math.abs(est / se);
+  return { est, se, z, p: normalPValue(z) };
+}
+
+/**
+ * One-stage MASEM (Jak & Cheung, 2020): the study correlation vectors are fitted directly, with
+ * every free path coefficient linear in the centred moderator, beta_i = beta_0 + beta_1 (x_i - mean).
+ * Between-study heterogeneity is a diagonal tau^2 over the correlations, estimated by moments
+ * from the fixed-effects residuals of the models without and with the moderator; their ratio is
+ * the heterogeneity the moderator explains. Without a moderator the intercepts are the usual
+ * one-stage random-effects estimates of the pooled model.
+ */
+export function estimateOSMASEM(vars: VarName[], studies: Study[], edges: Edge[], moderator: string): OsmasemResult {
+  if (!pathEdges(edges).length) throw new Error("No paths defined. Create at least one directed edge.");
+  const used = studies.filter((s) => moderator in s.moderators);
+  const skipped = studies.filter((s) => !(moderator in s.moderators)).map((s) => s.id);
+  if (used.length < 3) throw new Error(`Only ${used.length} studies report "${moderator}"; at least 3 are needed.`);
+  const values = used.map((s) => s.moderators[moderator]);
+  const center = values.reduce((s, x) => s + x, 0) / values.length;
+  if (values.every((x) => x === values[0])) throw new Error(`"${moderator}" is the same in every study, so it cannot moderate anything.`);
+
+  const data = studyVectors(vars, used);
+  const spec = buildModelSpec(vars, edges);
+  const moderated = [...new Set(spec.params.map((p, k) => (p.kind === "path" && spec.freeIndex[k] >= 0 ? spec.freeIndex[k] : -1)).filter((f) => f >= 0))];
+  const base: Design = { spec, moderated: [], x: values.map(() => 0) };
+  const design: Design = { spec, moderated, x: values.map((x) => x - center) };
+
+  // Pooled fixed-effects TSSEM estimates start the intercepts; slopes start at zero.
+  const pooled = poolCorrelationMatrices(vars, used, "fixed");
+  const N = pooled.nTotal.reduce((s, x) => s + x, 0) / pooled.nTotal.length;
+  const start = estimatePathsWLS(vars, stage1ToCellMatrix(pooled), edges, N, pooled.acov).wls.free;
+  const zeroTau = data.k.map(() => 0);
+
+  const fixedBase = fitGLS(base, data, zeroTau, start);
+  const tau2Base = momentTau2(data, fixedBase.residuals);
+  const fixedMod = fitGLS(design, data, zeroTau, [...fixedBase.phi, ...moderated.map(() => 0)]);
+  const tau2 = momentTau2(data, fixedMod.residuals);
+  const fit = fitGLS(design, data, tau2, fixedMod.phi);
+
+  const q = spec.nFree;
+  const coeffs: ModeratedCoef[] = [];
+  spec.params.forEach((p, k) => {
+    const f = spec.freeIndex[k];
+    if (p.source !== "edge" || f < 0) return;
+    const m = moderated.indexOf(f);
+    coeffs.push({
+      kind: p.kind,
+      from: p.from,
+      to: p.to,
+      label: p.label,
+      intercept: estimate(fit.phi[f], Math.sqrt(fit.vcov[f][f])),
+      slope: m < 0 ? null : estimate(fit.phi[q + m], Math.sqrt(fit.vcov[q + m][q + m])),
+    });
+  });
+
+  const slopes = moderated.map((_, m) => fit.phi[q + m]);
+  const Vs = matInverse(moderated.map((_, a) => moderated.map((_, b) => fit.vcov[q + a][q + b])));
+  const chi2 = slopes.reduce((s, x, a) => s + x * slopes.reduce((t, y, b) => t + Vs[a][b] * y, 0), 0);
+  const dfQ = data.rows.reduce((s, row) => s + row.obs.length, 0) - fixedMod.phi.length;
+  const sumBase = tau2Base.reduce((s, x) => s + x, 0);
+
+  return {
+    moderator,
+    center,
+    studyCount: used.length,
+    skipped,
+    coeffs,
+    slopeTest: { chi2, df: slopes.length, p: chiSquarePValue(chi2, slopes.length) },
+    heterogeneity: offDiagPairs(vars.length).map(([i, j], e) => ({ pair: [vars[i], vars[j]], k: data.k[e], tau2Base: tau2Base[e], tau2: tau2[e] })),
+    r2: sumBase > 0 ? Math.max(0, 1 - tau2.reduce((s, x) => s + x, 0) / sumBase) : Number.NaN,
+    Q: fixedMod.F,
+    dfQ,
+    pQ: dfQ > 0 ? chiSquarePValue(fixedMod.F, dfQ) : Number.NaN,
+  };
+}
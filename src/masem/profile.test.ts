@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { estimatePathsML } from "./ml";
+import { profileLikelihoodIntervals } from "./profile";
+
+const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X,M,Y,W
+X,1
+M,.40|500,1
+Y,.35|500,.50|500,1
+W,.20|500,.30|500,.25|500,1
+`);
+const edges: Edge[] = [
+  { kind: "path", from: "X", to: "M" },
+  { kind: "path", from: "M", to: "Y" },
+  { kind: "path", from: "W", to: "Y" },
+];
+
+describe("profileLikelihoodIntervals", () => {
+  const ci = profileLikelihoodIntervals(vars, cellMatrix, edges, 500)["M->Y"];
+  const fit = estimatePathsML(vars, cellMatrix, edges, 500);
+  const c = fit.coeffs.find((x) => x.from === "M" && x.to === "Y")!;
+
+  it("puts each bound where the refitted chi2 rises by 3.84", () => {
+    for (const x of [ci.lo, ci.hi]) {
+      const fixed = estimatePathsML(vars, cellMatrix, edges.map((e) => (e.from === "M" ? { ...e, fixed: x } : e)), 500);
+      expect(fixed.ml.chi2 - fit.ml.chi2).toBeCloseTo(3.841, 2);
+    }
+  });
+
+  it("is close to the Wald interval when the model fits", () => {
+    // In the saturated model the expected information behind the SEs is the curvature of the likelihood.
+    const saturated: Edge[] = [...edges, { kind: "path", from: "W", to: "M" }, { kind: "path", from: "X", to: "Y" }];
+    const intervals = profileLikelihoodIntervals(vars, cellMatrix, saturated, 500);
+    for (const x of estimatePathsML(vars, cellMatrix, saturated, 500).coeffs) {
+      const { lo, hi } = intervals[`${x.from}->${x.to}`];
+      expect(lo).toBeCloseTo(x.beta - 1.96 * x.se, 2);
+      expect(hi).toBeCloseTo(x.beta + 1.96 * x.se, 2);
+    }
+  });
+
+  it("brackets the estimate", () => {
+    expect(ci.lo).toBeLessThan(c.beta);
+    expect(ci.hi).toBeGreaterThan(c.beta);
+  });
+});
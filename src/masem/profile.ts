@@ -0,0 +1,82 @@
+import type { CellMatrix, Coef, Edge, Latent, VarName } from "./types";
+import { buildRMatrix } from "./cells";
+import { estimatePathsML, fitMLModel } from "./ml";
+
+// --- Profile-likelihood intervals ---
+
+// 95% point of chi-square with 1 df.
+const CHI2_1_95 = 3.841458820694124;
+
+/** Bounds are NaN when the likelihood never rises far enough (or the model breaks down) on that side. */
+export type ProfileCI = { lo: number; hi: number };
+
+export function coefKey(c: Pick<Coef, "kind" | "from" | "to">): string {
+  return c.kind === "cov" ? `${c.from}<->${c.to}` : `${c.from}->${c.to}`;
+}
+
+/**
+ * 95% profile-likelihood intervals for every path and residual covariance. Each parameter is
+ * fixed on a grid of one-SE steps away from the ML estimate while the others are re-fitted;
+ * the grid cell where (N - 1)(F_ML - F_min) crosses 3.84 is then refined by bisection.
+ */
+export function profileLikelihoodIntervals(
+  vars: VarName[],
+  cellM: CellMatrix,
+  edges: Edge[],
+  totalN: number,
+  latents: Latent[] = []
+): Record<string, ProfileCI> {
+  const S = buildRMatrix(vars, cellM);
+  const { ml, spec } = estimatePathsML(vars, cellM, edges, totalN, latents);
+  const out: Record<string, ProfileCI> = {};
+
+  const profile = (f: number, x: number, warm: number[]) => {
+    const start = warm.slice();
+    start[f] = x;
+    try {
+      const fit = fitMLModel(spec, S, totalN, start, [f]);
+      return { delta: fit.chi2 - ml.chi2, free: fit.free };
+    } catch {
+      return null;
+    }
+  };
+
+  // `f` indexes the free vector, so a labelled group is profiled once and fixed params are skipped.
+  const bound = (f: number, dir: 1 | -1): number => {
+    const est = ml.free[f];
+    const step = Math.max(1e-3, Math.sqrt(ml.vcovFree[f][f]));
+    let inside = est;
+    let warm = ml.free;
+    for (let i = 1; i <= 40; i++) {
+      const x = est + dir * i * step;
+      const at = profile(f, x, warm);
+      if (!at || !Number.isFinite(at.delta)) return Number.NaN;
+      if (at.delta >= CHI2_1_95) {
+        let outside = x;
+        for (let j = 0; j < 12; j++) {
+          const mid = (inside + outside) / 2;
+          const m = profile(f, mid, warm);
+          if (!m || !Number.isFinite(m.delta)) return Number.NaN;
+          if (m.delta >= CHI2_1_95) outside = mid;
+          else {
+            inside = mid;
+            warm = m.free;
+          }
+        }
+        return (inside + outside) / 2;
+      }
+      inside = x;
+      warm = at.free;
+    }
+    return Number.NaN;
+  };
+
+  const byFree = new Map<number, ProfileCI>();
+  spec.params.forEach((p, k) => {
+    const f = spec.freeIndex[k];
+    if (p.source !== "edge" || f < 0) return;
+    if (!byFree.has(f)) byFree.set(f, { lo: bound(f, -1), hi: bound(f, 1) });
+    out[coefKey(p)] = byFree.get(f)!;
+  });
+  return out;
+}
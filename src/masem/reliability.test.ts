@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { Edge, ReliabilityCorrection } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { disattenuate, scaleAcov, singleIndicatorModel, validateReliability } from "./reliability";
+import { estimateModel } from "./run";
+
+const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X,M,Y
+X,1
+M,.40|400,1
+Y,.30|400,.45|400,1
+`);
+const alpha = { X: 0.8, M: 0.7, Y: 0.9 };
+
+describe("disattenuate", () => {
+  it("divides each correlation by the root of the two reliabilities", () => {
+    const d = disattenuate(vars, cellMatrix, alpha);
+    expect(d.cellM.X.M.r).toBeCloseTo(0.4 / Math.sqrt(0.8 * 0.7), 12);
+    expect(d.cellM.Y.M.r).toBeCloseTo(0.45 / Math.sqrt(0.9 * 0.7), 12);
+    expect(d.cellM.M.X.n).toBe(400);
+    expect(d.factors).toEqual([Math.sqrt(0.8 * 0.7), Math.sqrt(0.8 * 0.9), Math.sqrt(0.7 * 0.9)]);
+    expect(d.warnings).toEqual([]);
+  });
+
+  it("truncates corrected correlations beyond 1 and says so", () => {
+    const d = disattenuate(vars, cellMatrix, { X: 0.3, M: 0.4 });
+    expect(d.cellM.X.M.r).toBe(0.999);
+    expect(d.warnings).toHaveLength(1);
+  });
+
+  it("scales the sampling covariance by the same factors", () => {
+    const acov = [
+      [0.004, 0.001],
+      [0.001, 0.002],
+    ];
+    const scaled = scaleAcov(acov, [0.5, 0.8]);
+    expect(scaled[0][0]).toBeCloseTo(0.016, 15);
+    expect(scaled[0][1]).toBeCloseTo(0.0025, 15);
+    expect(scaled[1][1]).toBeCloseTo(0.003125, 15);
+  });
+
+  it("rejects reliabilities outside (0, 1]", () => {
+    expect(validateReliability(vars, { X: 0, M: 1, Y: 1.2 })).toHaveLength(2);
+  });
+});
+
+describe("reliability-corrected estimation", () => {
+  const edges: Edge[] = [
+    { kind: "path", from: "X", to: "M" },
+    { kind: "path", from: "M", to: "Y" },
+    { kind: "path", from: "X", to: "Y" },
+  ];
+  const run = (mode: ReliabilityCorrection) => {
+    const out = estimateModel({ vars, cellM: cellMatrix, edges, estimator: "ML", nMethod: "harmonic", reliability: { alpha, mode } });
+    if (!out.ok) throw new Error(out.errors.join(" "));
+    return out.result;
+  };
+
+  it("gives the same paths by disattenuation and by single-indicator latents in a saturated model", () => {
+    const a = run("disattenuate");
+    const b = run("single-indicator");
+    for (const e of edges) {
+      const pick = (r: typeof a) => r.coeffs.find((c) => c.from === e.from && c.to === e.to)!.beta;
+      expect(pick(b)).toBeCloseTo(pick(a), 5);
+    }
+    expect(a.coeffs.find((c) => c.from === "X" && c.to === "M")!.beta).toBeCloseTo(0.4 / Math.sqrt(0.8 * 0.7), 6);
+    expect(b.reliability?.corrected).toEqual(["X", "M", "Y"]);
+  });
+
+  it("maps true scores back to the variables' names", () => {
+    const model = singleIndicatorModel(vars, edges, [], { X: 0.8 });
+    expect(model.edges[0].from).toBe("X (true score)");
+    expect(model.latents).toEqual([{ name: "X (true score)", indicators: ["X"], reliability: 0.8 }]);
+    expect(model.names.get("X (true score)")).toBe("X");
+  });
+});
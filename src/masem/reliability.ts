@@ -0,0 +1,85 @@
+import type { CellMatrix, Edge, EstResult, Latent, VarName } from "./types";
+import { offDiagPairs } from "./correlation";
+
+// --- Correction for attenuation by reliabilities ---
+
+/** Reliabilities must lie in (0, 1]; variables without one are taken as perfectly reliable. */
+export function validateReliability(vars: VarName[], alpha: Record<VarName, number>): string[] {
+  return vars
+    .filter((v) => alpha[v] !== undefined && !(alpha[v] > 0 && alpha[v] <= 1))
+    .map((v) => `Reliability of ${v} must be in (0, 1] (got ${alpha[v]}).`);
+}
+
+/** Variables whose reliability is below 1, i.e. that are corrected. */
+export function correctedVars(vars: VarName[], alpha: Record<VarName, number>): VarName[] {
+  return vars.filter((v) => alpha[v] !== undefined && alpha[v] < 1);
+}
+
+/**
+ * Spearman's correction r / √(αx αy) of every off-diagonal cell. Corrected values beyond ±1 are
+ * truncated to ±.999 and reported. `factors` holds √(αx αy) per element in offDiagPairs order,
+ * the scale by which the sampling covariance of the correlations is divided.
+ */
+export function disattenuate(
+  vars: VarName[],
+  cellM: CellMatrix,
+  alpha: Record<VarName, number>
+): { cellM: CellMatrix; factors: number[]; warnings: string[] } {
+  const a = (v: VarName) => alpha[v] ?? 1;
+  const next: CellMatrix = Object.fromEntries(vars.map((x) => [x, { ...cellM[x] }]));
+  const warnings: string[] = [];
+  const factors = offDiagPairs(vars.length).map(([i, j]) => {
+    const [x, y] = [vars[i], vars[j]];
+    const f = Math.sqrt(a(x) * a(y));
+    const r = cellM[x][y].r / f;
+    if (Math.abs(r) > 1) warnings.push(`${y}–${x}: corrected r = ${r.toFixed(3)} exceeds 1 (r = ${cellM[x][y].r}, α = ${a(y)} and ${a(x)}); truncated to ${r > 0 ? "" : "−"}.999.`);
+    const rc = Math.abs(r) > 1 ? Math.sign(r) * 0.999 : r;
+    next[x][y] = { ...cellM[x][y], r: rc };
+    next[y][x] = { ...cellM[y][x], r: rc };
+    return f;
+  });
+  return { cellM: next, factors, warnings };
+}
+
+/** Sampling covariance of the corrected correlations from that of the observed ones (α treated as known). */
+export function scaleAcov(acov: number[][], factors: number[]): number[][] {
+  return acov.map((row, a) => row.map((x, b) => x / (factors[a] * factors[b])));
+}
+
+const trueScore = (v: VarName) => `${v} (true score)`;
+
+/**
+ * The model with every corrected variable replaced by a latent true score measured by that
+ * variable alone, with the loading fixed at √α. Edges are moved to the true scores; variables
+ * that already indicate a latent variable keep their measurement model. `names` maps the true
+ * scores back to the variables.
+ */
+export function singleIndicatorModel(
+  vars: VarName[],
+  edges: Edge[],
+  latents: Latent[],
+  alpha: Record<VarName, number>
+): { edges: Edge[]; latents: Latent[]; names: Map<VarName, VarName> } {
+  const indicators = new Set(latents.flatMap((l) => l.indicators));
+  const names = new Map(correctedVars(vars, alpha).filter((v) => !indicators.has(v)).map((v) => [v, trueScore(v)]));
+  const swap = (v: VarName) => names.get(v) ?? v;
+  return {
+    edges: edges.map((e) => ({ ...e, from: swap(e.from), to: swap(e.to) })),
+    latents: [...latents, ...[...names].map(([v, name]) => ({ name, indicators: [v], reliability: alpha[v] }))],
+    names: new Map([...names].map(([v, name]) => [name, v])),
+  };
+}
+
+/** Results of singleIndicatorModel under the variables' own names; true scores leave the measurement list. */
+export function renameTrueScores(result: EstResult, names: Map<VarName, VarName>): EstResult {
+  const back = (v: VarName) => names.get(v) ?? v;
+  const rekey = (rec: Record<VarName, number>) => Object.fromEntries(Object.entries(rec).map(([k, x]) => [back(k), x]));
+  const measurement = result.measurement?.filter((m) => !names.has(m.latent));
+  return {
+    ...result,
+    coeffs: result.coeffs.map((c) => ({ ...c, from: back(c.from), to: back(c.to) })),
+    r2: rekey(result.r2),
+    resid: rekey(result.resid),
+    measurement: measurement?.length ? measurement : undefined,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { Coef, Edge } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { estimatePathsFromCorrelation } from "./estimation";
+import { bootstrapIntervals, monteCarloIntervals } from "./resampling";
+
+const coef = (from: string, to: string, beta: number): Coef => ({ kind: "path", from, to, beta, se: Number.NaN, t: Number.NaN, p: Number.NaN, vif: 1 });
+
+describe("monteCarloIntervals", () => {
+  const coeffs = [coef("X", "M", 0.5), coef("M", "Y", 0.4)];
+  const vcov = [
+    [0.01, 0],
+    [0, 0.0025],
+  ];
+  const res = monteCarloIntervals(["X", "M", "Y"], coeffs, vcov, { draws: 20000, seed: 1 });
+
+  it("reproduces the normal interval of a single path", () => {
+    const { lo, hi } = res.paths["X->M"].percentile;
+    // The Monte Carlo error of a 2.5% quantile from 20000 draws is about .002.
+    expect(Math.abs(lo - (0.5 - 1.96 * 0.1))).toBeLessThan(0.008);
+    expect(Math.abs(hi - (0.5 + 1.96 * 0.1))).toBeLessThan(0.008);
+    expect(res.valid).toBe(20000);
+  });
+
+  it("keeps the skew of the product of paths", () => {
+    const { lo, hi } = res.indirect["X->Y"].percentile;
+    expect(lo).toBeLessThan(0.2);
+    expect(hi).toBeGreaterThan(0.2);
+    // a·b with a ~ N(.5, .1²) and b ~ N(.4, .05²) is skewed right: the upper arm is longer.
+    expect(hi - 0.2).toBeGreaterThan(0.2 - lo);
+    expect(res.specific["X>M>Y"].percentile).toEqual(res.indirect["X->Y"].percentile);
+  });
+
+  it("is reproducible with a seed", () => {
+    expect(monteCarloIntervals(["X", "M", "Y"], coeffs, vcov, { draws: 200, seed: 7 })).toEqual(
+      monteCarloIntervals(["X", "M", "Y"], coeffs, vcov, { draws: 200, seed: 7 })
+    );
+  });
+});
+
+describe("bootstrapIntervals", () => {
+  const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X,M,Y
+X,1
+M,.40|400,1
+Y,.35|400,.50|400,1
+`);
+  const edges: Edge[] = [
+    { kind: "path", from: "X", to: "M" },
+    { kind: "path", from: "M", to: "Y" },
+    { kind: "path", from: "X", to: "Y" },
+  ];
+
+  it("gives intervals about as wide as the OLS standard errors imply", () => {
+    const res = bootstrapIntervals(vars, cellMatrix, edges, 400, { draws: 1000, seed: 3 });
+    for (const c of estimatePathsFromCorrelation(vars, cellMatrix, edges, 400).coeffs) {
+      const { lo, hi } = res.paths[`${c.from}->${c.to}`].percentile;
+      expect(lo).toBeLessThan(c.beta);
+      expect(hi).toBeGreaterThan(c.beta);
+      expect(Math.abs((hi - lo) / (2 * 1.96 * c.se) - 1)).toBeLessThan(0.15);
+    }
+  });
+
+  it("refuses constrained models", () => {
+    expect(() => bootstrapIntervals(vars, cellMatrix, [{ ...edges[0], fixed: 0.4 }, edges[1]], 400, { draws: 10 })).toThrow(/Monte Carlo/);
+  });
+});
@@ -0,0 +1,228 @@
+import type { CellMatrix, Coef, Edge, VarName } from "./types";
+import { buildRMatrix } from "./cells";
+import { estimatePathsFromCorrelation } from "./estimation";
+import { decomposeEffects } from "./effects";
+import { normalCdf, normalQuantile } from "./distributions";
+import { estimatePaths2SLS, isRecursive } from "./nonrecursive";
+import { cholesky } from "./linalg";
+import { matIdentity, matInverse, matMul, transpose } from "./matrix";
+
+// --- Parametric bootstrap and Monte Carlo intervals ---
+
+export type ResamplingMethod = "bootstrap" | "montecarlo";
+
+export type Interval = { lo: number; hi: number };
+
+export type ResampledCI = { percentile: Interval; bc: Interval };
+
+export type ResamplingResult = {
+  method: ResamplingMethod;
+  draws: number;
+  valid: number; // draws that produced an estimate
+  level: number;
+  paths: Record<string, ResampledCI>; // "from->to"
+  indirect: Record<string, ResampledCI>; // "from->to", all routes combined
+  specific: Record<string, ResampledCI>; // route joined by ">"
+};
+
+/** Small seeded generator (mulberry32) so a run can be reproduced. */
+function makeRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randNormal(rng: () => number): number {
+  const u = 1 - rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+// Marsaglia–Tsang; shapes below one are boosted by U^(1/shape).
+function randGamma(shape: number, rng: () => number): number {
+  if (shape < 1) return randGamma(shape + 1, rng) * Math.pow(1 - rng(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = randNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/** Correlation matrix of a Wishart(Sigma, df) draw, via the Bartlett decomposition. */
+function wishartCorrelation(L: number[][], df: number, rng: () => number): number[][] {
+  const p = L.length;
+  const A = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => (i === j ? Math.sqrt(2 * randGamma((df - i) / 2, rng)) : j < i ? randNormal(rng) : 0))
+  );
+  const LA = matMul(L, A);
+  const W = matMul(LA, transpose(LA));
+  return W.map((row, i) => row.map((x, j) => (i === j ? 1 : x / Math.sqrt(W[i][i] * W[j][j]))));
+}
+
+function quantile(sorted: number[], q: number): number {
+  const h = (sorted.length - 1) * Math.min(1, Math.max(0, q));
+  const i = Math.floor(h);
+  return i + 1 < sorted.length ? sorted[i] + (h - i) * (sorted[i + 1] - sorted[i]) : sorted[i];
+}
+
+/** Percentile and bias-corrected percentile intervals of `draws` around the estimate `est`. */
+function intervals(draws: number[], est: number, level: number): ResampledCI {
+  const sorted = draws.slice().sort((a, b) => a - b);
+  const alpha = (1 - level) / 2;
+  const below = sorted.filter((x) => x < est).length + 0.5 * sorted.filter((x) => x === est).length;
+  const z0 = normalQuantile(Math.min(1 - 0.5 / sorted.length, Math.max(0.5 / sorted.length, below / sorted.length)));
+  const zLo = normalQuantile(alpha);
+  return {
+    percentile: { lo: quantile(sorted, alpha), hi: quantile(sorted, 1 - alpha) },
+    bc: { lo: quantile(sorted, normalCdf(2 * z0 + zLo)), hi: quantile(sorted, normalCdf(2 * z0 - zLo)) },
+  };
+}
+
+/**
+ * Maps a vector of path coefficients (in `paths` order) to every quantity that gets an interval:
+ * the paths themselves, the combined indirect effect of each mediated pair and each specific route.
+ */
+function effectTargets(vars: VarName[], paths: Coef[]) {
+  const idx: Record<VarName, number> = Object.fromEntries(vars.map((v, i) => [v, i]));
+  const rows = decomposeEffects(vars, paths, paths.map(() => paths.map(() => 0))).filter((r) => r.specific.length > 0);
+  const routes = rows.flatMap((r) =>
+    r.specific.map((s) => s.route.slice(1).map((to, k) => paths.findIndex((c) => c.from === s.route[k] && c.to === to)))
+  );
+  const labels = {
+    paths: paths.map((c) => `${c.from}->${c.to}`),
+    indirect: rows.map((r) => `${r.from}->${r.to}`),
+    specific: rows.flatMap((r) => r.specific.map((s) => s.route.join(">"))),
+  };
+  const evaluate = (beta: number[]) => {
+    const IminusB = matIdentity(vars.length);
+    paths.forEach((c, k) => (IminusB[idx[c.to]][idx[c.from]] -= beta[k]));
+    const T = matInverse(IminusB);
+    const direct = (x: VarName, y: VarName) => {
+      const k = paths.findIndex((c) => c.from === x && c.to === y);
+      return k >= 0 ? beta[k] : 0;
+    };
+    return [
+      ...beta,
+      ...rows.map((r) => T[idx[r.to]][idx[r.from]] - direct(r.from, r.to)),
+      ...routes.map((ks) => ks.reduce((prod, k) => prod * beta[k], 1)),
+    ];
+  };
+  return { labels, evaluate };
+}
+
+function summarize(
+  method: ResamplingMethod,
+  draws: number,
+  level: number,
+  labels: ReturnType<typeof effectTargets>["labels"],
+  est: number[],
+  samples: number[][]
+): ResamplingResult {
+  const ci = (offset: number, keys: string[]) =>
+    Object.fromEntries(keys.map((key, i) => [key, intervals(samples.map((s) => s[offset + i]), est[offset + i], level)]));
+  return {
+    method,
+    draws,
+    valid: samples.length,
+    level,
+    paths: ci(0, labels.paths),
+    indirect: ci(labels.paths.length, labels.indirect),
+    specific: ci(labels.paths.length + labels.indirect.length, labels.specific),
+  };
+}
+
+/**
+ * Parametric bootstrap: correlation matrices are drawn from a Wishart distribution with the
+ * harmonic-mean N around the observed matrix and the paths are re-estimated (OLS, or 2SLS for
+ * feedback models) for each draw. Draws that cannot be estimated are dropped.
+ */
+export function bootstrapIntervals(
+  vars: VarName[],
+  cellM: CellMatrix,
+  edges: Edge[],
+  harmonicN: number,
+  opts: { draws: number; level?: number; seed?: number }
+): ResamplingResult {
+  if (edges.some((e) => e.fixed !== undefined || (e.label && edges.some((o) => o !== e && o.label === e.label)))) {
+    throw new Error("The bootstrap re-estimates each draw by OLS/2SLS, which cannot hold equality constraints or fixed values. Use Monte Carlo intervals instead.");
+  }
+  const level = opts.level ?? 0.95;
+  const rng = makeRng(opts.seed ?? Date.now());
+  const estimate = (M: CellMatrix) =>
+    (isRecursive(vars, edges) ? estimatePathsFromCorrelation(vars, M, edges, harmonicN) : estimatePaths2SLS(vars, M, edges, harmonicN)).coeffs;
+
+  const base = estimate(cellM);
+  const { labels, evaluate } = effectTargets(vars, base);
+  const est = evaluate(base.map((c) => c.beta));
+  const L = cholesky(buildRMatrix(vars, cellM));
+  const df = Math.round(harmonicN) - 1;
+
+  const samples: number[][] = [];
+  for (let b = 0; b < opts.draws; b++) {
+    const R = wishartCorrelation(L, df, rng);
+    const M: CellMatrix = Object.fromEntries(
+      vars.map((a, i) => [a, Object.fromEntries(vars.map((c, j) => [c, { ...cellM[a][c], r: R[i][j] }]))])
+    );
+    try {
+      const byKey = Object.fromEntries(estimate(M).map((c) => [`${c.from}->${c.to}`, c.beta]));
+      const s = evaluate(labels.paths.map((k) => byKey[k]));
+      if (s.every(Number.isFinite)) samples.push(s);
+    } catch {
+      // singular draw; skip it
+    }
+  }
+  if (samples.length < 2) throw new Error("Bootstrap failed: too few draws could be estimated.");
+  return summarize("bootstrap", opts.draws, level, labels, est, samples);
+}
+
+/**
+ * Monte Carlo intervals: path coefficients are drawn from N(beta, vcov) and the products along
+ * each mediated route are formed per draw, so indirect effects keep their skewed distribution.
+ * `nodes` lists every variable the paths touch, latent ones included.
+ */
+export function monteCarloIntervals(
+  nodes: VarName[],
+  coeffs: Coef[],
+  vcov: number[][],
+  opts: { draws: number; level?: number; seed?: number }
+): ResamplingResult {
+  const level = opts.level ?? 0.95;
+  const rng = makeRng(opts.seed ?? Date.now());
+  const keep = coeffs.map((c, i) => (c.kind === "path" ? i : -1)).filter((i) => i >= 0);
+  const paths = keep.map((i) => coeffs[i]);
+  const V = keep.map((a) => keep.map((b) => vcov[a][b]));
+  const { labels, evaluate } = effectTargets(nodes, paths);
+  const beta = paths.map((c) => c.beta);
+
+  let L: number[][];
+  try {
+    L = cholesky(V);
+  } catch {
+    L = cholesky(V.map((row, i) => row.map((x, j) => (i === j ? x + 1e-10 : x))));
+  }
+
+  const samples: number[][] = [];
+  for (let b = 0; b < opts.draws; b++) {
+    const z = beta.map(() => randNormal(rng));
+    try {
+      const s = evaluate(beta.map((x, i) => x + L[i].reduce((acc, l, j) => acc + l * z[j], 0)));
+      if (s.every(Number.isFinite)) samples.push(s);
+    } catch {
+      // I - B singular for this draw; skip it
+    }
+  }
+  if (samples.length < 2) throw new Error("Monte Carlo failed: too few draws gave finite effects.");
+  return summarize("montecarlo", opts.draws, level, labels, evaluate(beta), samples);
+}
@@ -0,0 +1,267 @@
+import type { CellMatrix, Coef, Edge, EstResult, Estimator, Fit, Latent, Measurement, ReliabilityCorrection, Stage2Weighting, VarName } from "./types";
+import { buildRMatrix, computeTotalN, validateCellMatrix } from "./cells";
+import {
+  computeFitIndices,
+  computeInformationCriteria,
+  countDF,
+  covEdges,
+  estimatePathsFromCorrelation,
+  fitML,
+  impliedSigmaRecursive,
+  pathEdges,
+  srmrOffDiag,
+} from "./estimation";
+import { countLatentDF, measurementSummary, validateLatents } from "./latent";
+import { estimatePathsML } from "./ml";
+import { validateCovEdges } from "./model";
+import { offDiagPairs } from "./correlation";
+import { checkIdentification, describeCycle, estimatePaths2SLS, feedbackBlocks, stabilityIndex } from "./nonrecursive";
+import { correctedVars, disattenuate, renameTrueScores, scaleAcov, singleIndicatorModel, validateReliability } from "./reliability";
+import type { Stage1Result } from "./tssem";
+import { acovFromCellMatrix, estimatePathsWLS, randomEffectsAcov } from "./wls";
+
+// --- One estimation run: validation, estimator dispatch and fit ---
+
+export type EstimationRequest = {
+  vars: VarName[];
+  cellM: CellMatrix;
+  edges: Edge[];
+  estimator: Estimator;
+  nMethod: "harmonic" | "min";
+  stage1?: Stage1Result | null;
+  weighting?: Stage2Weighting; // default "fixed"
+  latents?: Latent[];
+  reliability?: { alpha: Record<VarName, number>; mode: ReliabilityCorrection };
+};
+
+// Disattenuated runs keep the observed matrix for the sampling covariance, which is then rescaled.
+type Attenuation = { observedM: CellMatrix; factors: number[] };
+
+// `ok: false` carries problems with the data or model found before estimating. Failures inside an
+// estimator are thrown.
+export type EstimationOutcome =
+  | { ok: true; result: EstResult; warnings: string[] }
+  | { ok: false; errors: string[]; warnings: string[] };
+
+function addChi2Indices(fit: Fit, chi2: number, chi2_0: number, df0: number, warnings: string[]) {
+  if (fit.df <= 0) {
+    warnings.push("df = 0. Model is saturated. Fit indices (RMSEA/CFI) are not computed.");
+    return;
+  }
+  const { cfi, tli, nfi, ifi, rmsea, pvalue, rmseaLo, rmseaHi, pclose } = computeFitIndices({ chi2, df: fit.df, chi2_0, df0, N: fit.totalN });
+  fit.chi2 = chi2;
+  fit.chi2p = pvalue;
+  fit.rmsea = rmsea;
+  fit.rmseaCI = [rmseaLo, rmseaHi];
+  fit.pclose = pclose;
+  fit.cfi = cfi;
+  fit.tli = tli;
+  fit.nfi = nfi;
+  fit.ifi = ifi;
+}
+
+function heywoodWarnings(measurement: Measurement[]): string[] {
+  return measurement.flatMap((m) =>
+    m.loadings
+      .filter((l) => Math.abs(l.lambda) >= 1)
+      .map((l) => `${l.indicator} loads ${l.lambda.toFixed(3)} on ${m.latent}, so its residual variance is negative (Heywood case).`)
+  );
+}
+
+// Fixed values, or a label shared by two or more edges.
+function hasConstraints(edges: Edge[]): boolean {
+  const labels = edges.filter((e) => e.label).map((e) => e.label);
+  return edges.some((e) => e.fixed !== undefined) || new Set(labels).size < labels.length;
+}
+
+/**
+ * Validates and estimates the model. With reliabilities the estimates are corrected for
+ * measurement error, either on disattenuated correlations or with single-indicator latent
+ * true scores; results keep the variables' names.
+ */
+export function estimateModel(req: EstimationRequest): EstimationOutcome {
+  const { vars, reliability } = req;
+  if (!reliability) return estimateObserved(req);
+  const problems = validateReliability(vars, reliability.alpha);
+  if (problems.length) return { ok: false, errors: problems, warnings: [] };
+  const corrected = { mode: reliability.mode, corrected: correctedVars(vars, reliability.alpha) };
+
+  if (reliability.mode === "disattenuate") {
+    const d = disattenuate(vars, req.cellM, reliability.alpha);
+    let out: EstimationOutcome;
+    try {
+      out = estimateObserved({ ...req, cellM: d.cellM }, { observedM: req.cellM, factors: d.factors });
+    } catch (e) {
+      // A truncated correlation is the likely cause, so say which.
+      if (!d.warnings.length) throw e;
+      throw new Error(`${e instanceof Error ? e.message : String(e)} ${d.warnings.join(" ")}`);
+    }
+    const warnings = [...d.warnings, ...out.warnings];
+    if (req.estimator === "ML") warnings.push("ML treats the disattenuated correlations as observed, so its standard errors are too small. WLS or single-indicator latents account for the correction.");
+    return out.ok ? { ok: true, warnings, result: { ...out.result, reliability: corrected } } : { ...out, warnings };
+  }
+  const model = singleIndicatorModel(vars, req.edges, req.latents ?? [], reliability.alpha);
+  const out = estimateObserved({ ...req, edges: model.edges, latents: model.latents });
+  return out.ok ? { ...out, result: { ...renameTrueScores(out.result, model.names), reliability: corrected } } : out;
+}
+
+// Stability index of a non-recursive model, with a warning when its loops do not converge.
+function loopStability(nodes: VarName[], loops: VarName[][], coeffs: Coef[], warnings: string[]): number | undefined {
+  if (!loops.length) return undefined;
+  const index = stabilityIndex(nodes, coeffs);
+  if (index >= 1) {
+    warnings.push(`Feedback loop is not stable (stability index ${index.toFixed(2)} ≥ 1): the reciprocal effects do not converge to an equilibrium, so the estimates are not interpretable.`);
+  }
+  return index;
+}
+
+function estimateObserved(req: EstimationRequest, attenuation?: Attenuation): EstimationOutcome {
+  const { vars, cellM, edges, estimator, nMethod, stage1, weighting = "fixed", latents = [] } = req;
+  const v = validateCellMatrix(vars, cellM);
+  const errors: string[] = [];
+  const warnings: string[] = [...v.warnings];
+  const nodes = [...vars, ...latents.map((l) => l.name)];
+  const loops = feedbackBlocks(nodes, edges);
+
+  if (!pathEdges(edges).length) errors.push("No paths defined. Create at least one directed edge.");
+  if (!v.ok) errors.push(...v.errors);
+
+  if (loops.length && estimator === "OLS") {
+    errors.push(`OLS cannot estimate feedback loops (${loops.map((b) => describeCycle(b, edges)).join("; ")}). Choose ML, WLS or 2SLS.`);
+  }
+  if (loops.length) errors.push(...checkIdentification(nodes, edges));
+  errors.push(...validateCovEdges(nodes, edges));
+  if (latents.length) {
+    errors.push(...validateLatents(vars, latents, edges));
+    if (estimator === "OLS" || estimator === "2SLS") errors.push("Latent variables require ML or WLS.");
+  }
+  if (covEdges(edges).length && (estimator === "OLS" || estimator === "2SLS")) {
+    errors.push("Residual covariances can only be estimated with ML or WLS.");
+  }
+  const badFixed = edges.filter((e) => e.fixed !== undefined && !Number.isFinite(e.fixed));
+  if (badFixed.length) errors.push(`Fixed values must be numbers (${badFixed.map((e) => `${e.from} → ${e.to}`).join(", ")}).`);
+  if (hasConstraints(edges) && (estimator === "OLS" || estimator === "2SLS")) {
+    errors.push("Equality constraints and fixed values require ML or WLS.");
+  }
+
+  const N = v.ok ? computeTotalN(vars, cellM, nMethod) : Number.NaN;
+  if (v.ok && (!Number.isFinite(N) || N <= 2)) errors.push("Total N is invalid (check pairwise n values).");
+  if (errors.length) return { ok: false, errors, warnings };
+
+  const S = buildRMatrix(vars, cellM);
+  const pooled = stage1 && stage1.vars.join("|") === vars.join("|") ? stage1 : null;
+  let acov = pooled?.acov;
+  let randomEffects: EstResult["randomEffects"];
+  if (weighting === "random") {
+    if (estimator === "ML" || estimator === "2SLS") {
+      warnings.push(`${estimator} treats the pooled correlations as fixed; random-effects weighting applies to WLS and OLS.`);
+    } else if (pooled) {
+      if (pooled.method === "fixed") warnings.push("Stage 1 was pooled with fixed effects. Re-pool the studies with random effects to weight stage 2 by τ².");
+    } else {
+      const observedM = attenuation?.observedM ?? cellM;
+      const re = randomEffectsAcov(vars, observedM, buildRMatrix(vars, observedM));
+      const pairs = offDiagPairs(vars.length).length - re.missing.length;
+      if (!pairs) warnings.push("No pair has both τ² (or Q) and k, so random-effects weighting equals fixed-effects weighting.");
+      else if (re.missing.length) warnings.push(`No τ²/k for ${re.missing.join(", ")}; these correlations keep fixed-effects weights.`);
+      acov = re.acov;
+      randomEffects = pairs ? { pairs } : undefined;
+    }
+  }
+  if (attenuation) {
+    const { observedM, factors } = attenuation;
+    const base = acov ?? (estimator === "WLS" ? acovFromCellMatrix(vars, observedM, buildRMatrix(vars, observedM)) : undefined);
+    acov = base && scaleAcov(base, factors);
+  }
+
+  if (estimator === "WLS") {
+    const { coeffs, r2, resid, vcov, wls, spec } = estimatePathsWLS(vars, cellM, edges, N, acov, latents);
+    const measurement = latents.length ? measurementSummary(spec, wls.theta, wls.vcov) : undefined;
+    const { logLik, gfi } = fitML(S, wls.Sigma, N);
+    // Counted like ML (variances included), so information criteria do not depend on the estimator.
+    const { observedMoments, freeParams, endoCount } = latents.length ? countLatentDF(spec) : countDF(vars, edges);
+    const fit: Fit = {
+      estimator,
+      totalN: N,
+      N_method: nMethod,
+      SRMR: srmrOffDiag(S, wls.Sigma),
+      df: wls.df,
+      observedMoments,
+      freeParams,
+      endogenousCount: endoCount,
+      logLik,
+      gfi,
+      ...computeInformationCriteria({ logLik, chi2: wls.chi2, gfi, q: freeParams, df: wls.df, observedMoments, N }),
+    };
+    addChi2Indices(fit, wls.chi2, wls.chi2_0, wls.df0, warnings);
+    if (measurement) warnings.push(...heywoodWarnings(measurement));
+    const stability = loopStability(nodes, loops, coeffs, warnings);
+    return {
+      ok: true,
+      warnings,
+      result: {
+        coeffs,
+        r2,
+        resid,
+        vcov,
+        fit,
+        stage1: pooled ? { method: pooled.method, studyCount: pooled.studyCount } : undefined,
+        randomEffects,
+        measurement,
+        stability,
+      },
+    };
+  }
+
+  const ml = estimator === "ML" ? estimatePathsML(vars, cellM, edges, N, latents) : null;
+  const measurement = ml && latents.length ? measurementSummary(ml.spec, ml.ml.theta, ml.ml.vcov) : undefined;
+  const { coeffs, r2, resid, vcov } =
+    ml ??
+    (estimator === "2SLS"
+      ? estimatePaths2SLS(vars, cellM, edges, N)
+      : estimatePathsFromCorrelation(vars, cellM, edges, N, acov));
+  // Equation-wise estimators know nothing of labels; carry them over for the Wald test.
+  if (!ml) {
+    for (const c of coeffs) {
+      const label = edges.find((e) => e.kind === "path" && e.from === c.from && e.to === c.to)?.label;
+      if (label) c.label = label;
+    }
+  }
+  const stability = loopStability(nodes, loops, coeffs, warnings);
+  const Sigma = ml ? ml.ml.Sigma : impliedSigmaRecursive(vars, S, edges, coeffs, resid);
+  const { df, df0, observedMoments, freeParams, endoCount } = ml && latents.length ? countLatentDF(ml.spec) : countDF(vars, edges);
+  const discrepancy = fitML(S, Sigma, N);
+  const { chi2, chi2_0 } = ml ? ml.ml : discrepancy;
+  const { logLik, gfi } = discrepancy;
+
+  const fit: Fit = {
+    estimator,
+    totalN: N,
+    N_method: nMethod,
+    SRMR: srmrOffDiag(S, Sigma),
+    df,
+    observedMoments,
+    freeParams,
+    endogenousCount: endoCount,
+    logLik,
+    gfi,
+    ...computeInformationCriteria({ logLik, chi2, gfi, q: freeParams, df, observedMoments, N }),
+  };
+  addChi2Indices(fit, chi2, chi2_0, df0, warnings);
+  if (measurement) warnings.push(...heywoodWarnings(measurement));
+
+  return {
+    ok: true,
+    warnings,
+    result: {
+      coeffs,
+      r2,
+      resid,
+      vcov,
+      fit,
+      stage1: pooled && !ml ? { method: pooled.method, studyCount: pooled.studyCount } : undefined,
+      randomEffects: estimator === "OLS" ? randomEffects : undefined,
+      measurement,
+      stability,
+    },
+  };
+}
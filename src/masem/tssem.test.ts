@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { correlationAcov, offDiagPairs } from "./correlation";
+import { matInverse } from "./matrix";
+import { parseStudiesText, poolCorrelationMatrices, stage1ToCellMatrix } from "./tssem";
+
+describe("parseStudiesText", () => {
+  it("reads ids, sample sizes, moderators and lower-triangular matrices", () => {
+    const [s] = parseStudiesText("# Smith2019; n=250; year=2015\n,A,B\nA,1\nB,.3,1");
+    expect(s.id).toBe("Smith2019");
+    expect(s.n).toBe(250);
+    expect(s.moderators).toEqual({ year: 2015 });
+    expect(s.R.A.B).toBe(0.3);
+    expect(s.R.B.A).toBe(0.3);
+  });
+
+  it("rejects a block without a sample size", () => {
+    expect(() => parseStudiesText("# S1\n,A,B\nA,1\nB,.3,1")).toThrow(/sample size/);
+  });
+});
+
+describe("poolCorrelationMatrices", () => {
+  const pair = parseStudiesText(`
+# S1; n=100
+,A,B
+A,1
+B,.20,1
+# S2; n=300
+,A,B
+A,1
+B,.40,1
+# S3; n=200
+,A,B
+A,1
+B,.50,1
+`);
+
+  it("pools one correlation as the inverse-variance weighted mean", () => {
+    const res = poolCorrelationMatrices(["A", "B"], pair, "fixed");
+    // The Olkin–Siotani variances (1 - r̄²)²/n share r̄, so the weights are the n's.
+    const rBar = (100 * 0.2 + 300 * 0.4 + 200 * 0.5) / 600;
+    const v = (1 - rBar ** 2) ** 2;
+    expect(res.pooled[0][1]).toBeCloseTo(rBar, 12);
+    expect(res.acov[0][0]).toBeCloseTo(v / 600, 12);
+    const Q = (100 * (0.2 - rBar) ** 2 + 300 * (0.4 - rBar) ** 2 + 200 * (0.5 - rBar) ** 2) / v;
+    expect(res.Q[0]).toBeCloseTo(Q, 10);
+    expect(res.Qtotal).toBeCloseTo(Q, 10);
+    expect(res.dfTotal).toBe(2);
+    expect(res.tau2[0]).toBe(0);
+  });
+
+  it("adds the DerSimonian–Laird between-study variance under random effects", () => {
+    const res = poolCorrelationMatrices(["A", "B"], pair, "random");
+    const v = (1 - 0.4 ** 2) ** 2; // at the n-weighted mean r = .4
+    const w = [100, 300, 200].map((n) => n / v);
+    const sw = w.reduce((a, b) => a + b, 0);
+    const c = sw - w.reduce((a, b) => a + b * b, 0) / sw;
+    const tau2 = Math.max(0, (res.Q[0] - 2) / c);
+    expect(tau2).toBeGreaterThan(0);
+    expect(res.tau2[0]).toBeCloseTo(tau2, 12);
+    const ws = [100, 300, 200].map((n) => 1 / (v / n + tau2));
+    const mean = [0.2, 0.4, 0.5].reduce((s, r, i) => s + ws[i] * r, 0) / ws.reduce((a, b) => a + b, 0);
+    expect(res.pooled[0][1]).toBeCloseTo(mean, 12);
+  });
+
+  it("matches a hand-computed multivariate GLS when studies miss correlations", () => {
+    const vars = ["A", "B", "C"];
+    const studies = parseStudiesText(`
+# S1; n=150
+,A,B,C
+A,1
+B,.30,1
+C,.20,.40,1
+# S2; n=250
+,A,B,C
+A,1
+B,.35,1
+C,,.50,1
+# S3; n=400
+,A,B,C
+A,1
+B,,1
+C,.25,.45,1
+`);
+    const res = poolCorrelationMatrices(vars, studies, "fixed");
+
+    // n-weighted means per element, then Olkin–Siotani covariances at those means.
+    const rBar = [(150 * 0.3 + 250 * 0.35) / 400, (150 * 0.2 + 400 * 0.25) / 550, (150 * 0.4 + 250 * 0.5 + 400 * 0.45) / 800];
+    const P = [
+      [1, rBar[0], rBar[1]],
+      [rBar[0], 1, rBar[2]],
+      [rBar[1], rBar[2], 1],
+    ];
+    const data = [
+      { n: 150, obs: [0, 1, 2], r: [0.3, 0.2, 0.4] },
+      { n: 250, obs: [0, 2], r: [0.35, 0.5] },
+      { n: 400, obs: [1, 2], r: [0.25, 0.45] },
+    ];
+    const info = [0, 1, 2].map(() => [0, 0, 0]);
+    const score = [0, 0, 0];
+    for (const s of data) {
+      const full = correlationAcov(P, s.n);
+      const W = matInverse(s.obs.map((a) => s.obs.map((b) => full[a][b])));
+      s.obs.forEach((a, i) =>
+        s.obs.forEach((b, j) => {
+          info[a][b] += W[i][j];
+          score[a] += W[i][j] * s.r[j];
+        })
+      );
+    }
+    const acov = matInverse(info);
+    const rho = acov.map((row) => row.reduce((s, x, b) => s + x * score[b], 0));
+
+    offDiagPairs(3).forEach(([i, j], e) => expect(res.pooled[i][j]).toBeCloseTo(rho[e], 12));
+    res.acov.forEach((row, a) => row.forEach((x, b) => expect(x).toBeCloseTo(acov[a][b], 14)));
+    expect(res.k).toEqual([2, 2, 3]);
+    expect(res.nTotal).toEqual([400, 550, 800]);
+    expect(res.dfTotal).toBe(7 - 3);
+  });
+
+  it("carries n, k, tau2 and Q into the cell matrix", () => {
+    const M = stage1ToCellMatrix(poolCorrelationMatrices(["A", "B"], pair, "random"));
+    expect(M.A.B.n).toBe(600);
+    expect(M.B.A.k).toBe(3);
+    expect(M.A.B.tau2).toBeGreaterThan(0);
+    expect(M.A.A.r).toBe(1);
+  });
+});
@@ -0,0 +1,246 @@
+import type { CellMatrix, VarName } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { correlationAcov, offDiagPairs, unvechs } from "./correlation";
+import { matInverse } from "./matrix";
+
+// --- Stage 1 of TSSEM: pooling study-level correlation matrices ---
+
+export type Study = {
+  id: string;
+  n: number;
+  R: Record<VarName, Record<VarName, number>>; // NaN where the study does not report a correlation
+  moderators: Record<string, number>; // study-level covariates from the header, e.g. year=2015
+};
+
+export type PoolingMethod = "fixed" | "random";
+
+export type Stage1Result = {
+  method: PoolingMethod;
+  vars: VarName[];
+  studyCount: number;
+  pooled: number[][];
+  acov: number[][]; // offDiagPairs order over `vars`
+  k: number[]; // studies per element
+  nTotal: number[]; // summed n per element
+  Q: number[]; // per-element Cochran's Q
+  tau2: number[]; // per-element between-study variance (0 under the fixed-effects model)
+  Qtotal: number; // multivariate homogeneity statistic of the fixed-effects model
+  dfTotal: number;
+};
+
+/**
+ * Parses study blocks. Each block starts with a header line such as
+ * `# Smith2019; n=250` followed by a matrix in the same layout as the
+ * combined matrix text (header row of variable names, lower triangle is enough).
+ * Any other `key=value` in the header is a numeric study-level moderator.
+ */
+export function parseStudiesText(text: string): Study[] {
+  const lines = (text || "").split(/\r?\n/);
+  const blocks: { header: string; body: string[] }[] = [];
+  for (const line of lines) {
+    const t = line.trim();
+    if (!t) continue;
+    if (t.startsWith("#")) blocks.push({ header: t.slice(1).trim(), body: [] });
+    else if (blocks.length === 0) throw new Error('Study text must start with a header line like "# Study1; n=200".');
+    else blocks[blocks.length - 1].body.push(t);
+  }
+  if (blocks.length === 0) throw new Error("No studies found.");
+
+  return blocks.map((b, i) => {
+    let id = `Study ${i + 1}`;
+    let n = Number.NaN;
+    const raw: [string, string][] = [];
+    for (const part of b.header.split(/[;,]/).map((s) => s.trim()).filter(Boolean)) {
+      const m = part.match(/^([A-Za-z_][\w ]*?)\s*=\s*(.+)$/);
+      if (!m) id = part;
+      else if (m[1].toLowerCase() === "n") n = Number(m[2]);
+      else raw.push([m[1], m[2].trim()]);
+    }
+    if (!Number.isFinite(n) || n <= 3) throw new Error(`${id}: sample size n must be given and > 3 (e.g. "# ${id}; n=200").`);
+    const moderators: Study["moderators"] = {};
+    for (const [key, value] of raw) {
+      moderators[key] = Number(value);
+      if (!value || !Number.isFinite(moderators[key])) throw new Error(`${id}: moderator "${key}" must be a number (got "${value}").`);
+    }
+
+    let parsed;
+    try {
+      parsed = parseCombinedMatrixText(b.body.join("\n"));
+    } catch (e) {
+      throw new Error(`${id}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const R: Study["R"] = {};
+    for (const a of parsed.vars) {
+      R[a] = {};
+      for (const c of parsed.vars) {
+        const r = parsed.cellMatrix[a][c].r;
+        if (Number.isFinite(r) && (r < -1 || r > 1)) throw new Error(`${id}: correlation out of bounds at (${a}, ${c}).`);
+        R[a][c] = r;
+      }
+    }
+    return { id, n, R, moderators };
+  });
+}
+
+function studyValue(s: Study, a: VarName, b: VarName): number {
+  const v = s.R[a]?.[b];
+  return v === undefined ? Number.NaN : v;
+}
+
+export type StudyVectors = {
+  rows: { study: Study; obs: number[]; r: number[] }[]; // obs: reported elements in offDiagPairs order
+  V: number[][][]; // per study, sampling covariance of its reported r's
+  k: number[];
+  nTotal: number[];
+};
+
+/**
+ * Each study's reported correlations as a vector over offDiagPairs(vars), with Olkin–Siotani
+ * sampling covariances evaluated at the n-weighted mean correlations.
+ */
+export function studyVectors(vars: VarName[], studies: Study[]): StudyVectors {
+  const p = vars.length;
+  const pairs = offDiagPairs(p);
+  const m = pairs.length;
+  if (m === 0) throw new Error("At least 2 variables are needed for pooling.");
+
+  for (const s of studies) {
+    for (const v of Object.keys(s.R)) {
+      if (!vars.includes(v)) throw new Error(`${s.id} uses variable "${v}", which is not in the model. Add it in Setup first.`);
+    }
+  }
+
+  const rows = studies.map((s) => {
+    const obs: number[] = [];
+    const r: number[] = [];
+    pairs.forEach(([i, j], e) => {
+      const v = studyValue(s, vars[i], vars[j]);
+      if (Number.isFinite(v)) {
+        obs.push(e);
+        r.push(v);
+      }
+    });
+    return { study: s, obs, r };
+  });
+
+  const k = Array(m).fill(0);
+  const nTotal = Array(m).fill(0);
+  const rBar = Array(m).fill(0);
+  for (const row of rows) {
+    row.obs.forEach((e, t) => {
+      k[e] += 1;
+      nTotal[e] += row.study.n;
+      rBar[e] += row.study.n * row.r[t];
+    });
+  }
+  pairs.forEach(([i, j], e) => {
+    if (k[e] === 0) throw new Error(`No study reports the correlation between ${vars[i]} and ${vars[j]}.`);
+    rBar[e] /= nTotal[e];
+  });
+
+  const Pbar = unvechs(rBar, p);
+  const V = rows.map((row) => {
+    const full = correlationAcov(Pbar, row.study.n);
+    return row.obs.map((a) => row.obs.map((b) => full[a][b]));
+  });
+  return { rows, V, k, nTotal };
+}
+
+/**
+ * Pools the study matrices over `vars` with multivariate GLS (Becker, 1992; Cheung, 2015).
+ * Sampling covariances use the Olkin–Siotani formula evaluated at the n-weighted mean
+ * correlations. The random-effects model adds a diagonal between-study variance, estimated
+ * per element with the DerSimonian–Laird moment estimator.
+ */
+export function poolCorrelationMatrices(vars: VarName[], studies: Study[], method: PoolingMethod): Stage1Result {
+  const p = vars.length;
+  const m = offDiagPairs(p).length;
+  const { rows, V, k, nTotal } = studyVectors(vars, studies);
+
+  // Univariate Q and DerSimonian–Laird tau^2 per element.
+  const Q = Array(m).fill(0);
+  const tau2 = Array(m).fill(0);
+  for (let e = 0; e < m; e++) {
+    const w: number[] = [];
+    const y: number[] = [];
+    rows.forEach((row, s) => {
+      const t = row.obs.indexOf(e);
+      if (t < 0) return;
+      w.push(1 / V[s][t][t]);
+      y.push(row.r[t]);
+    });
+    const sw = w.reduce((a, b) => a + b, 0);
+    const mean = w.reduce((a, wi, i) => a + wi * y[i], 0) / sw;
+    Q[e] = w.reduce((a, wi, i) => a + wi * (y[i] - mean) ** 2, 0);
+    if (method === "random" && w.length > 1) {
+      const c = sw - w.reduce((a, wi) => a + wi * wi, 0) / sw;
+      tau2[e] = Math.max(0, (Q[e] - (w.length - 1)) / c);
+    }
+  }
+
+  const gls = (addTau: boolean) => {
+    const info = Array.from({ length: m }, () => Array(m).fill(0));
+    const score = Array(m).fill(0);
+    const Winv = rows.map((row, s) => {
+      const Vi = V[s].map((r, a) => r.map((x, b) => (addTau && a === b ? x + tau2[row.obs[a]] : x)));
+      return matInverse(Vi);
+    });
+    rows.forEach((row, s) => {
+      const W = Winv[s];
+      row.obs.forEach((ea, a) => {
+        row.obs.forEach((eb, b) => {
+          info[ea][eb] += W[a][b];
+          score[ea] += W[a][b] * row.r[b];
+        });
+      });
+    });
+    const acov = matInverse(info);
+    const rho = acov.map((r) => r.reduce((s, x, b) => s + x * score[b], 0));
+    return { acov, rho, Winv };
+  };
+
+  const fixed = gls(false);
+  let Qtotal = 0;
+  rows.forEach((row, s) => {
+    const res = row.obs.map((e, a) => row.r[a] - fixed.rho[e]);
+    const W = fixed.Winv[s];
+    res.forEach((ra, a) => res.forEach((rb, b) => (Qtotal += ra * W[a][b] * rb)));
+  });
+  const dfTotal = rows.reduce((s, row) => s + row.obs.length, 0) - m;
+
+  const { acov, rho } = method === "random" ? gls(true) : fixed;
+
+  return {
+    method,
+    vars: [...vars],
+    studyCount: studies.length,
+    pooled: unvechs(rho, p),
+    acov,
+    k,
+    nTotal,
+    Q,
+    tau2,
+    Qtotal,
+    dfTotal,
+  };
+}
+
+/**
+ * Pooled matrix as a CellMatrix; n is the total sample size behind each pooled r, and k, τ² and
+ * Q carry the per-element heterogeneity.
+ */
+export function stage1ToCellMatrix(res: Stage1Result): CellMatrix {
+  const M: CellMatrix = {};
+  for (const a of res.vars) {
+    M[a] = {};
+    for (const b of res.vars) M[a][b] = { r: a === b ? 1 : Number.NaN, n: Number.NaN };
+  }
+  offDiagPairs(res.vars.length).forEach(([i, j], e) => {
+    const a = res.vars[i];
+    const b = res.vars[j];
+    const cell = { r: res.pooled[i][j], n: res.nTotal[e], k: res.k[e], tau2: res.tau2[e], Q: res.Q[e] };
+    M[a][b] = cell;
+    M[b][a] = { ...cell };
+  });
+  return M;
+}
@@ -0,0 +1,96 @@
+// --- Types ---
+
+export type VarName = string;
+
+export type Cell = {
+  r: number; // correlation
+  n: number; // pairwise sample size, NaN for diagonal
+  // Optional meta-analytic heterogeneity of a pooled r.
+  k?: number; // number of studies
+  tau2?: number; // between-study variance
+  Q?: number; // Cochran's Q
+};
+
+export type CellMatrix = Record<VarName, Record<VarName, Cell>>;
+
+// "path" is a directed effect; "cov" is a residual covariance between two endogenous variables.
+export type EdgeKind = "path" | "cov";
+
+// Edges sharing a `label` are constrained equal; `fixed` holds the coefficient at a value.
+export type Edge = { from: VarName; to: VarName; kind: EdgeKind; label?: string; fixed?: number };
+
+// A common factor measured by observed indicators. Its variance is fixed at 1, so the loadings
+// are standardized. A single indicator with a `reliability` has its loading fixed at
+// √reliability, i.e. an error variance of 1 - reliability.
+export type Latent = { name: VarName; indicators: VarName[]; reliability?: number };
+
+export type Coef = { 
+  kind: EdgeKind;
+  from: VarName; 
+  to: VarName; 
+  beta: number; 
+  se: number;      
+  t: number;       
+  p: number;       
+  vif: number;     
+  df?: number; // residual df of a t-test; absent when p comes from the normal (z) distribution
+  label?: string;
+  fixed?: boolean; // held at its value, so se/t/p are NaN
+};
+
+export type Estimator = "ML" | "WLS" | "OLS" | "2SLS";
+
+export type Fit = {
+  estimator: Estimator;
+  totalN: number;
+  N_method: "harmonic" | "min";
+  SRMR: number;
+  df: number;
+  observedMoments: number;
+  freeParams: number;
+  endogenousCount: number;
+  chi2?: number;
+  chi2p?: number; // upper-tail p of chi2 on df
+  rmsea?: number;
+  rmseaCI?: [number, number]; // 90% interval
+  pclose?: number; // p of H0: RMSEA <= .05
+  cfi?: number;
+  tli?: number;
+  nfi?: number;
+  ifi?: number;
+  // Always set (also for saturated models); computed from the ML discrepancy of the implied matrix.
+  logLik: number;
+  gfi: number;
+  agfi: number; // NaN when df = 0
+  aic: number;
+  bic: number;
+  sabic: number;
+  ecvi: number;
+};
+
+export type Loading = { indicator: VarName; lambda: number; se: number; z: number; p: number; fixed?: boolean };
+
+// Standardized loadings of one latent variable with its average variance extracted and
+// composite reliability.
+export type Measurement = { latent: VarName; loadings: Loading[]; ave: number; cr: number };
+
+export type EstResult = {
+  coeffs: Coef[];
+  r2: Record<VarName, number>;
+  resid: Record<VarName, number>;
+  vcov: number[][]; // sampling covariance of coeffs, in the same order
+  fit: Fit;
+  stage1?: { method: "fixed" | "random"; studyCount: number }; // set when SEs use the stage-1 ACOV
+  randomEffects?: { pairs: number }; // set when τ²/k from the cells was added to the ACOV
+  measurement?: Measurement[]; // one entry per latent variable
+  reliability?: { mode: ReliabilityCorrection; corrected: VarName[] }; // set when α corrected the estimates
+  stability?: number; // stability index of the feedback loops, ≥ 1 when they do not converge; set for non-recursive models
+};
+
+// How stage 2 weights the pooled correlations: by sampling error only, or by sampling error plus
+// the between-study variance of a random-effects mean.
+export type Stage2Weighting = "fixed" | "random";
+
+// How reliabilities (α) correct for measurement error: by disattenuating the correlations,
+// r / √(αx αy), or by giving each variable a single-indicator latent with error variance 1 - α.
+export type ReliabilityCorrection = "disattenuate" | "single-indicator";
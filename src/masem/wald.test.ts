@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Edge, EstResult } from "./types";
+import { parseCombinedMatrixText } from "./cells";
+import { countDF } from "./estimation";
+import { estimateModel } from "./run";
+import { parseHypotheses, waldTest } from "./wald";
+
+const { vars, cellMatrix } = parseCombinedMatrixText(`
+,X,M,Y,W
+X,1
+M,.40|500,1
+Y,.35|500,.50|500,1
+W,.20|500,.30|500,.25|500,1
+`);
+
+function estimate(edges: Edge[]): EstResult {
+  const out = estimateModel({ vars, cellM: cellMatrix, edges, estimator: "ML", nMethod: "harmonic" });
+  if (!out.ok) throw new Error(out.errors.join(" "));
+  return out.result;
+}
+
+const general: Edge[] = [
+  { kind: "path", from: "X", to: "M", label: "a" },
+  { kind: "path", from: "W", to: "M", label: "b" },
+  { kind: "path", from: "M", to: "Y" },
+];
+
+describe("waldTest", () => {
+  const fit = estimate(general);
+
+  it("agrees with the likelihood-ratio test of an equality constraint", () => {
+    const wald = waldTest("a = b", fit.coeffs, fit.vcov);
+    const restricted = estimate(general.map((e) => (e.label === "b" ? { ...e, label: "a" } : e)));
+    const lr = restricted.fit.chi2! - fit.fit.chi2!;
+    expect(wald.df).toBe(1);
+    expect(restricted.fit.df - fit.fit.df).toBe(1);
+    expect(wald.chi2).toBeGreaterThan(1);
+    expect(Math.abs(wald.chi2 - lr) / lr).toBeLessThan(0.1);
+  });
+
+  it("agrees with the likelihood-ratio test of a fixed value", () => {
+    const wald = waldTest("a = 0.3", fit.coeffs, fit.vcov);
+    const restricted = estimate(general.map((e) => (e.label === "a" ? { ...e, fixed: 0.3 } : e)));
+    const lr = restricted.fit.chi2! - fit.fit.chi2!;
+    expect(Math.abs(wald.chi2 - lr) / lr).toBeLessThan(0.1);
+  });
+
+  it("tests several hypotheses jointly", () => {
+    const joint = waldTest("a = b\nb = 0", fit.coeffs, fit.vcov);
+    expect(joint.df).toBe(2);
+    expect(joint.chi2).toBeGreaterThan(waldTest("b = 0", fit.coeffs, fit.vcov).chi2);
+    expect(() => waldTest("a = b\n2*a = 2*b", fit.coeffs, fit.vcov)).toThrow(/redundant/);
+    expect(() => waldTest("c = 0", fit.coeffs, fit.vcov)).toThrow(/Unknown label/);
+  });
+});
+
+describe("parseHypotheses", () => {
+  it("collects coefficients and moves constants to the right", () => {
+    const [h] = parseHypotheses("2*a - b + 0.5 = a*3");
+    expect([...h.terms]).toEqual([["a", -1], ["b", -1]]);
+    expect(h.value).toBeCloseTo(-0.5, 12);
+  });
+});
+
+describe("countDF", () => {
+  it("counts fixed values and shared labels as constraints", () => {
+    const free = countDF(vars, general);
+    const tied = countDF(vars, general.map((e) => (e.label === "b" ? { ...e, label: "a" } : e)));
+    const fixed = countDF(vars, general.map((e) => (e.label === "a" ? { ...e, fixed: 0.3 } : e)));
+    expect(tied.df).toBe(free.df + 1);
+    expect(fixed.df).toBe(free.df + 1);
+  });
+});
@@ -0,0 +1,130 @@
+import type { Coef } from "./types";
+import { chiSquarePValue } from "./distributions";
+import { matInverse, matMul, matVecMul, transpose, vecDot } from "./matrix";
+
+// --- Wald tests of linear hypotheses on labelled parameters ---
+
+export type WaldTest = {
+  hypotheses: string[];
+  chi2: number;
+  df: number;
+  p: number;
+};
+
+type Linear = { terms: Map<string, number>; constant: number };
+
+const TOKEN = /\s*(?:(\d*\.?\d+(?:[eE][+-]?\d+)?)|([A-Za-z_][\w.]*)|([-+*=]))/y;
+
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < line.length) {
+    const at = TOKEN.lastIndex;
+    const m = TOKEN.exec(line);
+    if (!m) {
+      if (!line.slice(at).trim()) break;
+      throw new Error(`Unexpected "${line.slice(at).trim()[0]}" in "${line}".`);
+    }
+    tokens.push(m[1] ?? m[2] ?? m[3]);
+  }
+  return tokens;
+}
+
+const isNumber = (t: string | undefined) => t !== undefined && /^[\d.]/.test(t);
+const isLabel = (t: string | undefined) => t !== undefined && /^[A-Za-z_]/.test(t);
+
+// Sum of terms like `2*b1`, `b1*2`, `-b2` and `0.5`.
+function parseSide(tokens: string[], line: string): Linear {
+  const out: Linear = { terms: new Map(), constant: 0 };
+  if (!tokens.length) throw new Error(`Missing expression in "${line}".`);
+  let i = 0;
+  while (i < tokens.length) {
+    let sign = 1;
+    while (tokens[i] === "+" || tokens[i] === "-") sign *= tokens[i++] === "-" ? -1 : 1;
+    let factor = 1;
+    let label: string | undefined;
+    if (isNumber(tokens[i])) {
+      factor = Number(tokens[i++]);
+      if (tokens[i] === "*") {
+        i++;
+        if (!isLabel(tokens[i])) throw new Error(`Expected a label after "*" in "${line}".`);
+      }
+      if (isLabel(tokens[i])) label = tokens[i++];
+    } else if (isLabel(tokens[i])) {
+      label = tokens[i++];
+      if (tokens[i] === "*") {
+        i++;
+        if (!isNumber(tokens[i])) throw new Error(`Expected a number after "*" in "${line}".`);
+        factor = Number(tokens[i++]);
+      }
+    } else {
+      throw new Error(`Expected a label or number in "${line}".`);
+    }
+    if (label) out.terms.set(label, (out.terms.get(label) ?? 0) + sign * factor);
+    else out.constant += sign * factor;
+    if (i < tokens.length && tokens[i] !== "+" && tokens[i] !== "-") throw new Error(`Expected "+" or "-" before "${tokens[i]}" in "${line}".`);
+  }
+  return out;
+}
+
+/** One hypothesis per line, e.g. `b1 - b2 = 0` or `2*b1 + b3 = 0.5`; a missing right side means `= 0`. */
+export function parseHypotheses(text: string): { line: string; terms: Map<string, number>; value: number }[] {
+  const lines = text
+    .split(/\r?\n|;/)
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith("#"));
+  if (!lines.length) throw new Error("Enter at least one hypothesis, e.g. b1 - b2 = 0.");
+
+  return lines.map((line) => {
+    const tokens = tokenize(line);
+    const eq = tokens.indexOf("=");
+    if (eq !== tokens.lastIndexOf("=")) throw new Error(`Only one "=" is allowed in "${line}".`);
+    const lhs = parseSide(eq < 0 ? tokens : tokens.slice(0, eq), line);
+    const rhs = eq < 0 ? { terms: new Map<string, number>(), constant: 0 } : parseSide(tokens.slice(eq + 1), line);
+    const terms = new Map(lhs.terms);
+    rhs.terms.forEach((w, l) => terms.set(l, (terms.get(l) ?? 0) - w));
+    for (const [l, w] of terms) if (w === 0) terms.delete(l);
+    if (!terms.size) throw new Error(`"${line}" does not involve any parameter.`);
+    return { line, terms, value: rhs.constant - lhs.constant };
+  });
+}
+
+/**
+ * Joint Wald test of R·β = r, W = (Rβ − r)' (R V R')⁻¹ (Rβ − r) ~ χ²(rows). Labels refer to
+ * `Coef.label`; with an equality constraint every edge of the group shares one estimate, so
+ * the first one stands for the label. `vcov` is in `coeffs` order.
+ */
+export function waldTest(text: string, coeffs: Coef[], vcov: number[][]): WaldTest {
+  const hyp = parseHypotheses(text);
+  const index = new Map<string, number>();
+  coeffs.forEach((c, k) => {
+    if (c.label && !index.has(c.label)) index.set(c.label, k);
+  });
+  for (const h of hyp) {
+    for (const l of h.terms.keys()) {
+      if (!index.has(l)) throw new Error(`Unknown label "${l}". Label edges in step 2 first.`);
+      if (coeffs[index.get(l)!].fixed) throw new Error(`"${l}" is a fixed parameter and cannot be tested.`);
+    }
+  }
+
+  const R = hyp.map((h) =>
+    coeffs.map((_, k) => {
+      let w = 0;
+      h.terms.forEach((x, l) => {
+        if (index.get(l) === k) w += x;
+      });
+      return w;
+    })
+  );
+
+  const d = hyp.map((h, i) => vecDot(R[i], coeffs.map((c) => c.beta)) - h.value);
+  const RVR = matMul(matMul(R, vcov), transpose(R));
+  let inv: number[][];
+  try {
+    inv = matInverse(RVR);
+  } catch {
+    throw new Error("The hypotheses are redundant (R V R' is singular). Drop a line that follows from the others.");
+  }
+  const chi2 = vecDot(d, matVecMul(inv, d));
+  return { hypotheses: hyp.map((h) => h.line), chi2, df: hyp.length, p: chiSquarePValue(chi2, hyp.length) };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "./types";
+import { buildRMatrix, parseCombinedMatrixText } from "./cells";
+import { estimateModel } from "./run";
+import { acovFromCellMatrix, estimatePathsWLS, randomEffectsAcov } from "./wls";
+
+const path = (from: string, to: string): Edge => ({ kind: "path", from, to });
+
+describe("acovFromCellMatrix", () => {
+  it("uses the Olkin–Siotani variance with each pair's own n", () => {
+    const { vars, cellMatrix } = parseCombinedMatrixText(",X,Y,Z\nX,1\nY,.5|200,1\nZ,.3|800,.4|400,1");
+    const acov = acovFromCellMatrix(vars, cellMatrix, buildRMatrix(vars, cellMatrix));
+    expect(acov[0][0]).toBeCloseTo((1 - 0.25) ** 2 / 200, 14);
+    expect(acov[1][1]).toBeCloseTo((1 - 0.09) ** 2 / 800, 14);
+    expect(acov[2][2]).toBeCloseTo((1 - 0.16) ** 2 / 400, 14);
+  });
+});
+
+describe("estimatePathsWLS", () => {
+  it("gives a bivariate path the sampling variance of r", () => {
+    const { vars, cellMatrix } = parseCombinedMatrixText(",X,Y\nX,1\nY,.5|200,1");
+    const { coeffs } = estimatePathsWLS(vars, cellMatrix, [path("X", "Y")], 200);
+    expect(coeffs[0].beta).toBeCloseTo(0.5, 10);
+    expect(coeffs[0].se).toBeCloseTo((1 - 0.25) / Math.sqrt(200), 10);
+  });
+
+  it("has a chi2 close to ML's for an over-identified model", () => {
+    const { vars, cellMatrix } = parseCombinedMatrixText(",X,M,Y\nX,1\nM,.40|500,1\nY,.35|500,.50|500,1");
+    const edges = [path("X", "M"), path("M", "Y")];
+    const run = (estimator: "ML" | "WLS") => {
+      const out = estimateModel({ vars, cellM: cellMatrix, edges, estimator, nMethod: "harmonic" });
+      if (!out.ok) throw new Error(out.errors.join(" "));
+      return out.result.fit;
+    };
+    const wls = run("WLS");
+    const ml = run("ML");
+    expect(wls.df).toBe(1);
+    expect(Math.abs(wls.chi2! / ml.chi2! - 1)).toBeLessThan(0.1);
+  });
+});
+
+describe("random-effects weighting", () => {
+  // r|n|k|tau2: the X–Y pair carries τ² from 5 studies, X–Z only k.
+  const { vars, cellMatrix } = parseCombinedMatrixText(",X,Y,Z\nX,1\nY,.5|1000|5|.02,1\nZ,.3|800|4,.4|400|4||12,1");
+
+  it("adds tau2 / k to each pair that has them and lists the rest", () => {
+    const S = buildRMatrix(vars, cellMatrix);
+    const fixed = acovFromCellMatrix(vars, cellMatrix, S);
+    const { acov, missing } = randomEffectsAcov(vars, cellMatrix, S);
+    expect(acov[0][0] - fixed[0][0]).toBeCloseTo(0.02 / 5, 14);
+    expect(acov[1][1]).toBe(fixed[1][1]);
+    // Y–Z has Q instead of τ²: τ² = v (Q - (k - 1)) / (k - 1) with v = (1 - r²)² / (n/k - 1).
+    const v = (1 - 0.16) ** 2 / 99;
+    expect(acov[2][2] - fixed[2][2]).toBeCloseTo((v * 9) / 3 / 4, 14);
+    expect(acov[0][1]).toBe(fixed[0][1]);
+    expect(missing).toEqual(["X–Z"]);
+  });
+
+  it("widens the standard error of a bivariate path to √(v + τ²/k)", () => {
+    const { vars: v2, cellMatrix: m2 } = parseCombinedMatrixText(",X,Y\nX,1\nY,.5|1000|5|.02,1");
+    const out = estimateModel({ vars: v2, cellM: m2, edges: [path("X", "Y")], estimator: "WLS", nMethod: "harmonic", weighting: "random" });
+    if (!out.ok) throw new Error(out.errors.join(" "));
+    expect(out.result.randomEffects).toEqual({ pairs: 1 });
+    expect(out.result.coeffs[0].se).toBeCloseTo(Math.sqrt(0.75 ** 2 / 1000 + 0.02 / 5), 10);
+  });
+});
@@ -0,0 +1,161 @@
+import type { CellMatrix, Coef, Edge, Latent, VarName } from "./types";
+import { buildRMatrix } from "./cells";
+import { correlationAcov, offDiagPairs, vechs } from "./correlation";
+import { cellHeterogeneity } from "./heterogeneity";
+import { initialEstimates } from "./latent";
+import { matInverse } from "./matrix";
+import {
+  buildModelSpec,
+  coeffsFromTheta,
+  coeffVcov,
+  expandTheta,
+  expandVcov,
+  freeStart,
+  impliedCorrelation,
+  numericJacobian,
+  residualSummary,
+  type ModelSpec,
+} from "./model";
+
+// --- Stage-2 WLS (TSSEM) ---
+
+/** Asymptotic covariance of the pooled r's, each element weighted by its own pairwise n. */
+export function acovFromCellMatrix(vars: VarName[], M: CellMatrix, S: number[][]): number[][] {
+  const ns = offDiagPairs(vars.length).map(([i, j]) => {
+    const n1 = M[vars[i]][vars[j]].n;
+    const n2 = M[vars[j]][vars[i]].n;
+    return Number.isFinite(n1) && Number.isFinite(n2) ? Math.min(n1, n2) : Number.isFinite(n1) ? n1 : n2;
+  });
+  return correlationAcov(S, ns);
+}
+
+/**
+ * Random-effects version of acovFromCellMatrix: τ²/k is added to the sampling variance of each
+ * pooled r, the extra uncertainty of a mean over k studies whose population correlations differ.
+ * τ² comes from the cell (or from its Q); pairs without τ² and k keep their fixed-effects variance
+ * and are listed in `missing`.
+ */
+export function randomEffectsAcov(vars: VarName[], M: CellMatrix, S: number[][]): { acov: number[][]; missing: string[] } {
+  const acov = acovFromCellMatrix(vars, M, S);
+  const missing: string[] = [];
+  offDiagPairs(vars.length).forEach(([i, j], e) => {
+    const cell = M[vars[i]][vars[j]];
+    const tau2 = cellHeterogeneity(cell)?.tau2 ?? Number.NaN;
+    if (Number.isFinite(tau2) && cell.k !== undefined && cell.k >= 1) acov[e][e] += tau2 / cell.k;
+    else missing.push(`${vars[j]}–${vars[i]}`);
+  });
+  return { acov, missing };
+}
+
+export type WLSResult = {
+  theta: number[]; // one value per spec param
+  vcov: number[][];
+  free: number[];
+  Sigma: number[][];
+  Psi: number[][];
+  chi2: number; // minimized WLS discrepancy
+  chi2_0: number; // independence model (all correlations zero)
+  df: number;
+  df0: number;
+  iterations: number;
+};
+
+function quadForm(r: number[], W: number[][]): number {
+  let s = 0;
+  for (let i = 0; i < r.length; i++) for (let j = 0; j < r.length; j++) s += r[i] * W[i][j] * r[j];
+  return s;
+}
+
+/** Gauss–Newton minimisation of (r - rho(theta))' V^-1 (r - rho(theta)) over the free vector. */
+export function fitWLS(spec: ModelSpec, S: number[][], acov: number[][], start: number[]): WLSResult {
+  const r = vechs(S);
+  const W = matInverse(acov);
+  const rho = (th: number[]) => vechs(impliedCorrelation(spec, expandTheta(spec, th)).Sigma);
+  const F = (th: number[]) => quadForm(rho(th).map((x, i) => r[i] - x), W);
+
+  let theta = start.slice();
+  let f = F(theta);
+  let iterations = 0;
+  for (; iterations < 200; iterations++) {
+    const J = numericJacobian(rho, theta);
+    const res = rho(theta).map((x, i) => r[i] - x);
+    const q = theta.length;
+    const JtW = Array.from({ length: q }, (_, a) => W[0].map((_, j) => J.reduce((s, row, i) => s + row[a] * W[i][j], 0)));
+    const H = JtW.map((row) => Array.from({ length: q }, (_, b) => row.reduce((s, x, j) => s + x * J[j][b], 0)));
+    const g = JtW.map((row) => row.reduce((s, x, j) => s + x * res[j], 0));
+    const step = matInverse(H).map((row) => row.reduce((s, x, b) => s + x * g[b], 0));
+
+    let lambda = 1;
+    let next = theta.map((x, k) => x + step[k]);
+    let fNext = Number.NaN;
+    for (let h = 0; h < 30; h++) {
+      try {
+        fNext = F(next);
+      } catch {
+        fNext = Number.NaN;
+      }
+      if (Number.isFinite(fNext) && fNext <= f + 1e-12) break;
+      lambda /= 2;
+      next = theta.map((x, k) => x + lambda * step[k]);
+    }
+    if (!Number.isFinite(fNext)) throw new Error("WLS estimation failed to converge. Check the model or correlations.");
+    const maxStep = Math.max(0, ...step.map((x) => Math.abs(lambda * x)));
+    theta = next;
+    f = fNext;
+    if (maxStep < 1e-9) break;
+  }
+
+  const J = numericJacobian(rho, theta);
+  const q = theta.length;
+  const H = Array.from({ length: q }, (_, a) =>
+    Array.from({ length: q }, (_, b) => {
+      let s = 0;
+      for (let i = 0; i < J.length; i++) for (let j = 0; j < J.length; j++) s += J[i][a] * W[i][j] * J[j][b];
+      return s;
+    })
+  );
+  const { Sigma, Psi } = impliedCorrelation(spec, expandTheta(spec, theta));
+
+  return {
+    theta: expandTheta(spec, theta),
+    vcov: expandVcov(spec, q ? matInverse(H) : []),
+    free: theta,
+    Sigma,
+    Psi,
+    chi2: f,
+    chi2_0: quadForm(r, W),
+    df: r.length - q,
+    df0: r.length,
+    iterations,
+  };
+}
+
+/**
+ * WLS stage-2 estimates for the path model. `acov` defaults to the asymptotic covariance
+ * built from the per-pair n in the CellMatrix. OLS estimates (2SLS for feedback models)
+ * serve as starting values.
+ */
+export function estimatePathsWLS(
+  vars: VarName[],
+  cellM: CellMatrix,
+  edges: Edge[],
+  totalN: number,
+  acov?: number[][],
+  latents: Latent[] = []
+): {
+  coeffs: Coef[];
+  r2: Record<VarName, number>;
+  resid: Record<VarName, number>;
+  vcov: number[][];
+  wls: WLSResult;
+  spec: ModelSpec;
+} {
+  const S = buildRMatrix(vars, cellM);
+  const spec = buildModelSpec(vars, edges, latents);
+  const { template, start } = initialEstimates(spec, cellM, edges, latents, totalN, acov);
+  const wls = fitWLS(spec, S, acov ?? acovFromCellMatrix(vars, cellM, S), freeStart(spec, start));
+
+  const coeffs = coeffsFromTheta(spec, wls.theta, wls.vcov, template);
+  const { r2, resid } = residualSummary(spec, wls.Psi);
+  return { coeffs, r2, resid, vcov: coeffVcov(spec, wls.vcov, coeffs), wls, spec };
+}